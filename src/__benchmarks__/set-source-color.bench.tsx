@@ -0,0 +1,58 @@
+/**
+ * Microbenchmark of rapid source color updates, as sent by a color picker while dragging.
+ * Run with `npm run bench`; results are printed, not asserted, as timings depend on the machine.
+ */
+import { describe, expect, it } from "@jest/globals";
+import React from "react";
+import { act, cleanup, render } from "@testing-library/react";
+import { argbFromHex, Hct, hexFromArgb } from "@material/material-color-utilities";
+import { MaterialThemeProvider, useMaterialTheme } from "../material-theme-provider";
+import type { MaterialThemeContextType } from "../types";
+
+const STEPS = 120;
+
+// Colors along a full hue sweep, like dragging across a hue slider
+const dragColors = Array.from({ length: STEPS }, (_value, step) =>
+  hexFromArgb(Hct.from((step * 360) / STEPS, 48, 50).toInt()),
+);
+
+const measure = (name: string, setSourceColor: (color: string) => void, colors: string[]) => {
+  const start = performance.now();
+  for (const color of colors) {
+    act(() => {
+      setSourceColor(color);
+    });
+  }
+  const total = performance.now() - start;
+
+  console.log(
+    `${name}: ${colors.length} updates in ${total.toFixed(1)} ms (${(total / colors.length).toFixed(2)} ms each)`,
+  );
+};
+
+describe("setSourceColor drag", () => {
+  it.each([
+    ["tokens only", {}],
+    ["with palettes, states and elevation", { palettes: true, states: true, elevation: true }],
+  ])("measures %s", (name, props) => {
+    let context: MaterialThemeContextType | undefined;
+    const Consumer = () => {
+      context = useMaterialTheme();
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#6D509F" {...props}>
+        <Consumer />
+      </MaterialThemeProvider>,
+    );
+    const setSourceColor = (color: string) => context?.setSourceColor(color);
+
+    measure(`${name}, first sweep`, setSourceColor, dragColors);
+    // Dragging back over the same colors hits the theme cache for the most recent ones
+    measure(`${name}, sweep back`, setSourceColor, [...dragColors].reverse());
+
+    expect(context?.materialTheme.source).toBe(argbFromHex(dragColors[0]));
+    cleanup();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from "@jest/globals";
+import { argbFromHex } from "@material/material-color-utilities";
+import { type CliIO, EXIT_CODES, runCli } from "../cli";
+import { createMaterialTheme, renderThemeCss } from "../theme-utils";
+import { Variant } from "../types";
+
+// In-memory IO capturing everything the generator reads and writes
+const createIO = (files: Record<string, string> = {}) => {
+  const output = { stdout: "", stderr: "", files: { ...files } };
+  const io: CliIO = {
+    stdout: (text) => {
+      output.stdout += text;
+    },
+    stderr: (text) => {
+      output.stderr += text;
+    },
+    readFile: (path) => {
+      if (!(path in output.files)) throw new Error("ENOENT: no such file");
+      return output.files[path];
+    },
+    writeFile: (path, content) => {
+      if (path.startsWith("/read-only/")) throw new Error("EACCES: permission denied");
+      output.files[path] = content;
+    },
+  };
+  return { io, output };
+};
+
+describe("runCli", () => {
+  it("prints usage with --help", () => {
+    const { io, output } = createIO();
+
+    expect(runCli(["--help"], io)).toBe(EXIT_CODES.SUCCESS);
+    expect(output.stdout).toContain("Usage: material-theme generate");
+  });
+
+  it("generates CSS to standard output", () => {
+    const { io, output } = createIO();
+
+    const code = runCli(["generate", "--source", "#6D509F", "--variant", "vibrant", "--contrast", "0.5"], io);
+    const theme = createMaterialTheme(argbFromHex("#6D509F"), Variant.VIBRANT, 0.5);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(output.stdout).toBe(`${renderThemeCss(theme)}\n`);
+    expect(output.stderr).toBe("");
+  });
+
+  it.each([
+    ["json", '"$type": "color"'],
+    ["scss", "$md-sys-color-primary-light:"],
+  ])("writes %s output to a file", (format, expected) => {
+    const { io, output } = createIO();
+
+    const code = runCli(["generate", "--source", "#6D509F", "--format", format, "--out", "theme.out"], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(output.files["theme.out"]).toContain(expected);
+    expect(output.stdout).toBe("");
+  });
+
+  it("generates CSS in the given color formats", () => {
+    const { io, output } = createIO();
+
+    const code = runCli(["generate", "--source", "#6D509F", "--color-format", "oklch, rgb-channels"], io);
+    const theme = createMaterialTheme(argbFromHex("#6D509F"), Variant.TONAL_SPOT);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(output.stdout).toBe(`${renderThemeCss(theme, { formats: ["oklch", "rgb-channels"] })}\n`);
+    expect(output.stdout).toContain("--md-sys-color-primary-rgb:");
+  });
+
+  it("reads options and custom colors from a config file", () => {
+    const config = {
+      source: "#006494",
+      variant: "fruit-salad",
+      mode: "dark",
+      customColors: [{ name: "brand", value: "#ff0000", blend: true }],
+    };
+    const { io, output } = createIO({ "theme.json": JSON.stringify(config) });
+
+    const code = runCli(["generate", "--config", "theme.json", "--source", "#6D509F"], io);
+    const theme = createMaterialTheme(argbFromHex("#6D509F"), Variant.FRUIT_SALAD, 0, [
+      { name: "brand", value: argbFromHex("#ff0000"), blend: true },
+    ]);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(output.stdout).toBe(`${renderThemeCss(theme, { mode: "dark" })}\n`);
+  });
+
+  it.each([
+    [[], "Missing command"],
+    [["build"], 'Unknown command "build"'],
+    [["generate", "--colour", "#fff"], "Unknown option '--colour'"],
+    [["generate"], "Missing --source"],
+    [["generate", "--source", "purple"], 'Invalid source color "purple"'],
+    [["generate", "--source", "#6D509F", "--variant", "pastel"], 'Unknown variant "pastel"'],
+    [["generate", "--source", "#6D509F", "--variant", "2"], 'Unknown variant "2"'],
+    [["generate", "--source", "#6D509F", "--variant", "constructor"], 'Unknown variant "constructor"'],
+    [["generate", "--source", "#6D509F", "--contrast", "2"], "Contrast must be a number from -1.0 to 1.0"],
+    [["generate", "--source", "#6D509F", "--contrast", "high"], "Contrast must be a number from -1.0 to 1.0"],
+    [["generate", "--source", "#6D509F", "--format", "xml"], 'Unknown format "xml"'],
+    [["generate", "--source", "#6D509F", "--mode", "dim"], 'Unknown mode "dim"'],
+    [["generate", "--source", "#6D509F", "--color-format", "hex,lab"], 'Unknown color format "lab"'],
+  ])("rejects invalid input %j", (argv, message) => {
+    const { io, output } = createIO();
+
+    expect(runCli(argv, io)).toBe(EXIT_CODES.INVALID_INPUT);
+    expect(output.stderr).toContain(message);
+    expect(output.stdout).toBe("");
+  });
+
+  it.each([
+    ["invalid JSON", "{", "is not valid JSON"],
+    ["a non-object", "[]", "must contain a JSON object"],
+    ["custom colors that are not an array", '{"source":"#fff","customColors":{}}', '"customColors" must be an array'],
+    [
+      "custom colors with a bad hex value",
+      '{"source":"#fff","customColors":[{"name":"brand","value":"#ggg"}]}',
+      'customColors[0] ("brand") has an invalid hex value "#ggg"',
+    ],
+    [
+      "custom colors without a name",
+      '{"source":"#fff","customColors":[{"value":"#fff"}]}',
+      'customColors[0] needs a "name"',
+    ],
+  ])("rejects config files with %s", (_name, content, message) => {
+    const { io, output } = createIO({ "theme.json": content });
+
+    expect(runCli(["generate", "--config", "theme.json"], io)).toBe(EXIT_CODES.INVALID_INPUT);
+    expect(output.stderr).toContain(message);
+  });
+
+  it("reports file errors with a separate exit code", () => {
+    const missing = createIO();
+    expect(runCli(["generate", "--config", "missing.json"], missing.io)).toBe(EXIT_CODES.IO_ERROR);
+    expect(missing.output.stderr).toContain('Could not read config file "missing.json"');
+
+    const readOnly = createIO();
+    expect(runCli(["generate", "--source", "#fff", "--out", "/read-only/theme.css"], readOnly.io)).toBe(
+      EXIT_CODES.IO_ERROR,
+    );
+    expect(readOnly.output.stderr).toContain('Could not write "/read-only/theme.css"');
+  });
+});
@@ -0,0 +1,66 @@
+import { formatColor, formatColorTokens, parseColor } from "../color-formats";
+import type { ColorFormat } from "../types";
+import { argbFromHex } from "@material/material-color-utilities";
+
+describe("formatColor", () => {
+  it.each<[ColorFormat, string]>([
+    ["hex", "#6750a4"],
+    ["rgb-channels", "103 80 164"],
+    ["rgb", "rgb(103 80 164)"],
+    ["hsl", "hsl(256.4 34.4% 47.8%)"],
+    ["oklch", "oklch(49.55% 0.1305 293.71)"],
+  ])("formats %s", (format, expected) => {
+    expect(formatColor(argbFromHex("#6750a4"), format)).toBe(expected);
+  });
+
+  it("matches reference OKLCH values", () => {
+    expect(formatColor(argbFromHex("#ff0000"), "oklch")).toBe("oklch(62.8% 0.2577 29.23)");
+    expect(formatColor(argbFromHex("#ffffff"), "oklch")).toBe("oklch(100% 0 0)");
+  });
+
+  it("uses a zero hue for grays", () => {
+    expect(formatColor(argbFromHex("#808080"), "hsl")).toBe("hsl(0 0% 50.2%)");
+    expect(formatColor(argbFromHex("#808080"), "oklch")).toBe("oklch(59.99% 0 0)");
+  });
+});
+
+describe("formatColorTokens", () => {
+  const red = argbFromHex("#ff0000");
+
+  it("uses the plain name for the first color format and suffixes for the others", () => {
+    expect(formatColorTokens("--x", red, ["oklch", "hex", "rgb-channels"])).toEqual([
+      ["--x", "oklch(62.8% 0.2577 29.23)"],
+      ["--x-hex", "#ff0000"],
+      ["--x-rgb", "255 0 0"],
+    ]);
+  });
+
+  it("always suffixes RGB channels", () => {
+    expect(formatColorTokens("--x", red, ["rgb-channels", "rgb"])).toEqual([
+      ["--x-rgb", "255 0 0"],
+      ["--x", "rgb(255 0 0)"],
+    ]);
+  });
+
+  it("adds a plain hex token when RGB channels are the only format", () => {
+    expect(formatColorTokens("--x", red, ["rgb-channels"])).toEqual([
+      ["--x", "#ff0000"],
+      ["--x-rgb", "255 0 0"],
+    ]);
+  });
+});
+
+describe("parseColor", () => {
+  const formats: ColorFormat[] = ["hex", "rgb-channels", "rgb", "hsl", "oklch"];
+  const colors = ["#6750a4", "#ff0000", "#00897b", "#808080", "#ffffff", "#000000"];
+
+  it.each(formats)("reads back %s colors", (format) => {
+    for (const color of colors) {
+      expect(parseColor(formatColor(argbFromHex(color), format))).toEqual({ argb: argbFromHex(color), format });
+    }
+  });
+
+  it.each(["400", "0.08", "12px", "#fff", "var(--x)", "256 0 0", "rgb(1, 2, 3)"])("ignores %s", (value) => {
+    expect(parseColor(value)).toBeNull();
+  });
+});
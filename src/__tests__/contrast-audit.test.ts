@@ -0,0 +1,78 @@
+import { describe, expect, it } from "@jest/globals";
+import { argbFromHex } from "@material/material-color-utilities";
+import { auditTheme, formatContrastFailure, getContrastRatio } from "../contrast-audit";
+import { createMaterialTheme } from "../theme-utils";
+import { ContrastLevel, Variant } from "../types";
+
+const customColors = [{ name: "brand", value: argbFromHex("#ffeb3b"), blend: false }];
+
+describe("getContrastRatio", () => {
+  it("calculates WCAG contrast ratios", () => {
+    expect(getContrastRatio("#000000", "#ffffff")).toBeCloseTo(21, 1);
+    expect(getContrastRatio("#777777", "#ffffff")).toBeCloseTo(4.48, 1);
+    expect(getContrastRatio("#ffffff", "#ffffff")).toBeCloseTo(1, 5);
+  });
+});
+
+describe("auditTheme", () => {
+  it("checks role pairs in both schemes, including custom colors", () => {
+    const { pairs } = auditTheme(createMaterialTheme(argbFromHex("#6D509F"), Variant.TONAL_SPOT, 0, customColors));
+    const find = (scheme: string, foreground: string, background: string) =>
+      pairs.find((pair) => pair.scheme === scheme && pair.foreground === foreground && pair.background === background);
+
+    expect(find("light", "--md-sys-color-on-primary", "--md-sys-color-primary")).toBeDefined();
+    expect(find("dark", "--md-sys-color-on-surface", "--md-sys-color-surface-container-highest")).toBeDefined();
+    expect(find("dark", "--md-custom-color-on-brand-container", "--md-custom-color-brand-container")).toBeDefined();
+    expect(find("light", "--md-sys-color-outline", "--md-sys-color-surface")?.kind).toBe("graphic");
+  });
+
+  it("passes a standard contrast theme", () => {
+    const audit = auditTheme(createMaterialTheme(argbFromHex("#6D509F"), Variant.TONAL_SPOT, 0, customColors));
+
+    expect(audit.passes).toBe(true);
+    expect(audit.failures).toEqual([]);
+    expect(audit.pairs.every((pair) => pair.ratio >= 3)).toBe(true);
+  });
+
+  it("reports failing pairs of a reduced contrast theme", () => {
+    const audit = auditTheme(createMaterialTheme(argbFromHex("#6D509F"), Variant.TONAL_SPOT, ContrastLevel.REDUCED));
+
+    expect(audit.passes).toBe(false);
+    expect(audit.failures).toContainEqual(
+      expect.objectContaining({
+        scheme: "light",
+        foreground: "--md-sys-color-outline",
+        background: "--md-sys-color-surface",
+        aa: false,
+      }),
+    );
+    expect(audit.failures.every((pair) => !pair.aa && !pair.aaa)).toBe(true);
+  });
+
+  it("flags AAA separately from AA", () => {
+    const { pairs } = auditTheme(createMaterialTheme(argbFromHex("#6D509F")));
+    const aaOnly = pairs.filter((pair) => pair.aa && !pair.aaa);
+
+    expect(aaOnly.length).toBeGreaterThan(0);
+    expect(aaOnly.every((pair) => pair.ratio >= 4.5 && pair.ratio < 7)).toBe(true);
+  });
+});
+
+describe("formatContrastFailure", () => {
+  it("describes the failing pair", () => {
+    const message = formatContrastFailure({
+      scheme: "dark",
+      foreground: "--md-sys-color-outline",
+      background: "--md-sys-color-surface",
+      kind: "graphic",
+      ratio: 2.456,
+      aa: false,
+      aaa: false,
+    });
+
+    expect(message).toBe(
+      "Insufficient contrast in the dark scheme: --md-sys-color-outline on --md-sys-color-surface is 2.46:1, " +
+        "graphic requires 3:1 (WCAG AA)",
+    );
+  });
+});
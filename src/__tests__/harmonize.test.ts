@@ -0,0 +1,58 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { argbFromHex, Blend, customColor, hexFromArgb } from "@material/material-color-utilities";
+import { getColorRoles, harmonizeColor } from "../harmonize";
+
+const source = argbFromHex("#6D509F");
+
+describe("harmonizeColor", () => {
+  it("shifts the hue toward the source color", () => {
+    expect(harmonizeColor("#FF0000", source)).toBe(hexFromArgb(Blend.harmonize(argbFromHex("#FF0000"), source)));
+    expect(harmonizeColor("#FF0000", source)).not.toBe("#ff0000");
+  });
+
+  it("depends on the source color", () => {
+    expect(harmonizeColor("#FF0000", argbFromHex("#00FF00"))).not.toBe(harmonizeColor("#FF0000", source));
+  });
+
+  it("reports invalid colors and returns them unchanged", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(harmonizeColor("red", source)).toBe("red");
+    expect(consoleError).toHaveBeenCalledWith('Invalid hex value "red" for harmonized color');
+
+    consoleError.mockRestore();
+  });
+});
+
+describe("getColorRoles", () => {
+  it("generates the roles of a custom color", () => {
+    const group = customColor(source, { name: "", value: argbFromHex("#2E7D32"), blend: true });
+
+    expect(getColorRoles("#2E7D32", source, false)).toEqual({
+      color: hexFromArgb(group.light.color),
+      onColor: hexFromArgb(group.light.onColor),
+      container: hexFromArgb(group.light.colorContainer),
+      onContainer: hexFromArgb(group.light.onColorContainer),
+    });
+    expect(getColorRoles("#2E7D32", source, true).container).toBe(hexFromArgb(group.dark.colorContainer));
+  });
+
+  it("keeps the hue when harmonizing is disabled", () => {
+    const group = customColor(source, { name: "", value: argbFromHex("#2E7D32"), blend: false });
+
+    expect(getColorRoles("#2E7D32", source, false, false).color).toBe(hexFromArgb(group.light.color));
+  });
+
+  it("returns the same object for repeated calls", () => {
+    expect(getColorRoles("#1565C0", source, false)).toBe(getColorRoles("#1565C0", source, false));
+  });
+
+  it("reports invalid colors and uses the source color instead", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(getColorRoles("blue", source, false)).toEqual(getColorRoles("#6D509F", source, false));
+    expect(consoleError).toHaveBeenCalledWith('Invalid hex value "blue" for color roles');
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from "@jest/globals";
+import { argbFromHex, Hct } from "@material/material-color-utilities";
+import { sourceColorFromImage, sourceColorsFromPixels } from "../image-utils";
+
+// Builds RGBA pixel data with the given number of pixels per hex color
+const createPixels = (colors: Array<[string, number]>, alpha = 255): Uint8ClampedArray => {
+  const values: number[] = [];
+  for (const [hex, count] of colors) {
+    const argb = argbFromHex(hex);
+    for (let i = 0; i < count; i++) {
+      values.push((argb >> 16) & 0xff, (argb >> 8) & 0xff, argb & 0xff, alpha);
+    }
+  }
+  return new Uint8ClampedArray(values);
+};
+
+describe("sourceColorsFromPixels", () => {
+  it("ranks the dominant colorful color first", () => {
+    const pixels = createPixels([
+      ["#1565c0", 300],
+      ["#c62828", 100],
+    ]);
+
+    const [first] = sourceColorsFromPixels(pixels);
+
+    expect(Math.abs(Hct.fromInt(first).hue - Hct.fromInt(argbFromHex("#1565c0")).hue)).toBeLessThan(5);
+  });
+
+  it("returns several ranked candidates", () => {
+    const pixels = createPixels([
+      ["#1565c0", 300],
+      ["#c62828", 200],
+      ["#2e7d32", 100],
+    ]);
+
+    expect(sourceColorsFromPixels(pixels).length).toBe(3);
+    expect(sourceColorsFromPixels(pixels, { desired: 1 }).length).toBe(1);
+  });
+
+  it("ignores translucent pixels and falls back when nothing is usable", () => {
+    const pixels = createPixels([["#1565c0", 100]], 128);
+
+    expect(sourceColorsFromPixels(pixels)).toEqual([0xff4285f4]);
+  });
+
+  it("rejects data that is not RGBA", () => {
+    expect(() => sourceColorsFromPixels([255, 0, 0])).toThrow("Pixel data must contain four RGBA values per pixel");
+  });
+});
+
+describe("sourceColorFromImage", () => {
+  it("accepts raw pixel arrays without a canvas", async () => {
+    const pixels = createPixels([["#2e7d32", 100]]);
+
+    await expect(sourceColorFromImage(pixels)).resolves.toEqual(sourceColorsFromPixels(pixels));
+  });
+});
@@ -0,0 +1,29 @@
+import { createLruCache } from "../lru-cache";
+
+describe("createLruCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = createLruCache<number>(2);
+
+    cache.set("a", 1);
+    cache.set("b", 2);
+    expect(cache.get("a")).toBe(1);
+    cache.set("c", 3);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it("replaces entries and clears", () => {
+    const cache = createLruCache<number>(2);
+
+    cache.set("a", 1);
+    cache.set("a", 2);
+    expect(cache.get("a")).toBe(2);
+    expect(cache.size).toBe(1);
+
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
@@ -1,7 +1,26 @@
 import { describe, expect, it, beforeEach, afterEach, jest } from "@jest/globals";
 import React from "react";
+import { readFileSync } from "node:fs";
 import { render, screen, fireEvent, act, cleanup } from "@testing-library/react";
+import { hydrateRoot, type Root } from "react-dom/client";
 import { MaterialThemeProvider, useMaterialTheme } from "../material-theme-provider";
+import { createMaterialTheme, getThemeTokens } from "../theme-utils";
+import { argbFromHex, type DynamicScheme, hexFromArgb, TonalPalette } from "@material/material-color-utilities";
+import {
+  ContrastLevel,
+  type ImageSource,
+  type MaterialThemeContextType,
+  type ThemeBuilderJson,
+  type ThemeVariant,
+  Variant,
+} from "../types";
+import {
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  parseThemeState,
+  serializeThemeState,
+} from "../persistence";
+import { parseThemeBuilderJson } from "../theme-builder";
 
 // Mock component to test the hook
 const TestComponent = () => {
@@ -75,6 +94,234 @@ describe("MaterialThemeProvider", () => {
     expect(styles.getPropertyValue("--md-sys-color-background")).toBeTruthy();
   });
 
+  it("applies custom color CSS properties", () => {
+    render(
+      <MaterialThemeProvider
+        defaultSourceColor="#006494"
+        customColors={[{ name: "brand", value: "#ff0000", blend: true }]}
+      >
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    const styles = window.getComputedStyle(document.documentElement);
+    expect(styles.getPropertyValue("--md-custom-color-brand")).toBeTruthy();
+    expect(styles.getPropertyValue("--md-custom-color-on-brand-container")).toBeTruthy();
+  });
+
+  it("applies roles from seeded palettes", () => {
+    render(
+      <MaterialThemeProvider
+        defaultSourceColor="#006494"
+        variant={Variant.TONAL_SPOT}
+        seedColors={{ tertiary: "#F4511E" }}
+      >
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    const styles = window.getComputedStyle(document.documentElement);
+    expect(styles.getPropertyValue("--md-sys-color-tertiary")).toBe(
+      hexFromArgb(TonalPalette.fromInt(argbFromHex("#F4511E")).tone(40)),
+    );
+  });
+
+  it("applies overrides to the tokens and the context scheme", () => {
+    let scheme: DynamicScheme | null = null;
+    const SchemeComponent = () => {
+      scheme = useMaterialTheme().currentScheme;
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" overrides={{ primary: "#0057b8" }}>
+        <SchemeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-primary")).toBe("#0057b8");
+    expect((scheme as DynamicScheme | null)?.primary).toBe(argbFromHex("#0057b8"));
+  });
+
+  it("applies transformed tokens with a custom prefix", () => {
+    const target = document.createElement("div");
+
+    render(
+      <MaterialThemeProvider
+        defaultSourceColor="#006494"
+        target={{ current: target }}
+        prefix="--brand-"
+        transform={(tokens) => new Map([...tokens, ["--brand-elevation-tint", "#000000"]])}
+      >
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(target.style.getPropertyValue("--brand-primary")).toBeTruthy();
+    expect(target.style.getPropertyValue("--brand-elevation-tint")).toBe("#000000");
+    expect(target.style.getPropertyValue("--md-sys-color-primary")).toBe("");
+  });
+
+  it("applies tokens in the given color formats", () => {
+    const target = document.createElement("div");
+
+    render(
+      <MaterialThemeProvider
+        defaultSourceColor="#006494"
+        target={{ current: target }}
+        formats={["hex", "rgb-channels"]}
+      >
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(target.style.getPropertyValue("--md-sys-color-primary")).toMatch(/^#[0-9a-f]{6}$/);
+    expect(target.style.getPropertyValue("--md-sys-color-primary-rgb")).toMatch(/^\d+ \d+ \d+$/);
+  });
+
+  it("keeps the last valid theme when the source color is invalid", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    let hookResult: MaterialThemeContextType | undefined;
+    const HookComponent = () => {
+      hookResult = useMaterialTheme();
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <HookComponent />
+      </MaterialThemeProvider>,
+    );
+    const validTheme = hookResult?.materialTheme;
+
+    act(() => {
+      hookResult?.setSourceColor("not-a-color");
+    });
+
+    expect(hookResult?.materialTheme).toBe(validTheme);
+    expect(consoleError).toHaveBeenCalled();
+
+    consoleError.mockRestore();
+  });
+
+  it("falls back to the default theme when the initial source color is invalid", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    let hookResult: MaterialThemeContextType | undefined;
+    const HookComponent = () => {
+      hookResult = useMaterialTheme();
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="not-a-color">
+        <HookComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.materialTheme.source).toBe(argbFromHex("#6D509F"));
+    expect(consoleError).toHaveBeenCalled();
+
+    consoleError.mockRestore();
+  });
+
+  it("keeps the theme when a custom color is invalid", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    render(
+      <MaterialThemeProvider
+        defaultSourceColor="#006494"
+        customColors={[
+          { name: "broken", value: "not-a-color", blend: true },
+          { name: "brand", value: "#ff0000", blend: true },
+        ]}
+      >
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    const styles = window.getComputedStyle(document.documentElement);
+    expect(styles.getPropertyValue("--md-sys-color-primary")).toBeTruthy();
+    expect(styles.getPropertyValue("--md-custom-color-brand")).toBeTruthy();
+    expect(styles.getPropertyValue("--md-custom-color-broken")).toBe("");
+    expect(consoleError).toHaveBeenCalledTimes(1);
+
+    consoleError.mockRestore();
+  });
+
+  it("updates the source color from image pixels", async () => {
+    let setSourceImage: ((image: ImageSource) => Promise<number[]>) | undefined;
+    const ImageComponent = () => {
+      setSourceImage = useMaterialTheme().setSourceImage;
+      return <TestComponent />;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <ImageComponent />
+      </MaterialThemeProvider>,
+    );
+
+    const pixels = new Uint8ClampedArray(400).fill(255);
+    for (let i = 0; i < pixels.length; i += 4) {
+      pixels.set([0xc6, 0x28, 0x28], i);
+    }
+
+    let candidates: number[] = [];
+    await act(async () => {
+      candidates = (await setSourceImage?.(pixels)) ?? [];
+    });
+
+    expect(candidates.length).toBeGreaterThan(0);
+    expect(screen.getByTestId("source-color").textContent).toBe(argbFromHex(hexFromArgb(candidates[0])).toString());
+  });
+
+  it("applies palette tokens and exposes palette tones", () => {
+    let hookResult: MaterialThemeContextType | undefined;
+    const ToneComponent = () => {
+      hookResult = useMaterialTheme();
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" palettes={[40]}>
+        <ToneComponent />
+      </MaterialThemeProvider>,
+    );
+
+    const styles = window.getComputedStyle(document.documentElement);
+    expect(styles.getPropertyValue("--md-ref-palette-primary40")).toBe(hookResult?.getTone("primary", 40));
+    expect(styles.getPropertyValue("--md-ref-palette-primary90")).toBe("");
+  });
+
+  it("warns about insufficient contrast when auditing", () => {
+    const consoleWarn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" contrastLevel={ContrastLevel.REDUCED} auditContrast>
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(consoleWarn).toHaveBeenCalled();
+    expect(consoleWarn.mock.calls[0][0]).toContain("Insufficient contrast");
+
+    consoleWarn.mockRestore();
+  });
+
+  it("does not audit contrast by default", () => {
+    const consoleWarn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" contrastLevel={ContrastLevel.REDUCED}>
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(consoleWarn).not.toHaveBeenCalled();
+
+    consoleWarn.mockRestore();
+  });
+
   it("throws error when hook is used outside provider", () => {
     const consoleError = console.error;
     console.error = jest.fn();
@@ -87,6 +334,931 @@ describe("MaterialThemeProvider", () => {
   });
 });
 
+describe("MaterialThemeProvider scoped theming", () => {
+  beforeEach(() => {
+    document.documentElement.style.cssText = "";
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  const getScopes = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll<HTMLElement>("[data-material-theme-scope]"));
+
+  it("applies tokens to its own wrapper instead of the document root", () => {
+    const { container } = render(
+      <MaterialThemeProvider defaultSourceColor="#006494" scoped>
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    const [scope] = getScopes(container);
+    expect(scope.style.getPropertyValue("--md-sys-color-primary")).toBeTruthy();
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-primary")).toBe("");
+  });
+
+  it("lets nested providers override their parent", () => {
+    const { container } = render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <MaterialThemeProvider defaultSourceColor="#b3261e" scoped>
+          <div data-testid="nested" />
+        </MaterialThemeProvider>
+      </MaterialThemeProvider>,
+    );
+
+    const [scope] = getScopes(container);
+    const rootPrimary = document.documentElement.style.getPropertyValue("--md-sys-color-primary");
+    const scopePrimary = scope.style.getPropertyValue("--md-sys-color-primary");
+
+    expect(scopePrimary).toBeTruthy();
+    expect(scopePrimary).not.toBe(rootPrimary);
+    expect(scope.contains(screen.getByTestId("nested"))).toBe(true);
+  });
+
+  it("keeps its tokens when effects run twice in strict mode", () => {
+    const { container } = render(
+      <React.StrictMode>
+        <MaterialThemeProvider defaultSourceColor="#006494" scoped>
+          <TestComponent />
+        </MaterialThemeProvider>
+      </React.StrictMode>,
+    );
+
+    const [scope] = getScopes(container);
+    expect(scope.style.getPropertyValue("--md-sys-color-primary")).toBeTruthy();
+
+    act(() => {
+      fireEvent.click(screen.getByTestId("change-color"));
+    });
+    const theme = createMaterialTheme(argbFromHex("#ff0000"), Variant.FIDELITY);
+    expect(scope.style.getPropertyValue("--md-sys-color-primary")).toBe(
+      getThemeTokens(theme, false).get("--md-sys-color-primary"),
+    );
+  });
+
+  it("applies tokens to a target ref and removes them on unmount", () => {
+    const target = document.createElement("section");
+    document.body.appendChild(target);
+
+    const { unmount } = render(
+      <MaterialThemeProvider defaultSourceColor="#006494" target={{ current: target }}>
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(target.style.getPropertyValue("--md-sys-color-primary")).toBeTruthy();
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-primary")).toBe("");
+
+    unmount();
+    expect(target.style.getPropertyValue("--md-sys-color-primary")).toBe("");
+
+    target.remove();
+  });
+});
+
+describe("MaterialThemeProvider hydration", () => {
+  it("hydrates server-rendered markup without a mismatch", () => {
+    const consoleError = jest.spyOn(console, "error");
+    const container = document.createElement("div");
+    // Markup produced by renderToString, see material-theme-style.test.tsx
+    container.innerHTML = '<div data-material-theme-scope="" style="display:contents"><main>content</main></div>';
+    document.body.appendChild(container);
+
+    let root: Root | undefined;
+    act(() => {
+      root = hydrateRoot(
+        container,
+        <MaterialThemeProvider scoped>
+          <main>content</main>
+        </MaterialThemeProvider>,
+      );
+    });
+
+    expect(consoleError).not.toHaveBeenCalled();
+    expect(
+      container
+        .querySelector<HTMLElement>("[data-material-theme-scope]")
+        ?.style.getPropertyValue("--md-sys-color-primary"),
+    ).toBeTruthy();
+
+    consoleError.mockRestore();
+    act(() => root?.unmount());
+    container.remove();
+  });
+});
+
+describe("MaterialThemeProvider color mode", () => {
+  const originalMatchMedia = window.matchMedia;
+  let listeners: Array<(event: MediaQueryListEvent) => void>;
+  let prefersDark: boolean;
+
+  const ModeComponent = () => {
+    const { mode, resolvedMode, setMode } = useMaterialTheme();
+    return (
+      <div>
+        <div data-testid="mode">{mode}</div>
+        <div data-testid="resolved-mode">{resolvedMode}</div>
+        {/* biome-ignore lint/a11y/useButtonType: <explanation> */}
+        <button onClick={() => setMode("dark")} data-testid="set-dark">
+          Dark
+        </button>
+      </div>
+    );
+  };
+
+  const setPrefersDark = (value: boolean) => {
+    prefersDark = value;
+    for (const listener of listeners) {
+      listener({ matches: value } as MediaQueryListEvent);
+    }
+  };
+
+  beforeEach(() => {
+    document.documentElement.style.cssText = "";
+    listeners = [];
+    prefersDark = false;
+    window.matchMedia = ((query: string) => ({
+      get matches() {
+        return prefersDark;
+      },
+      media: query,
+      addEventListener: (_type: string, listener: (event: MediaQueryListEvent) => void) => listeners.push(listener),
+      removeEventListener: (_type: string, listener: (event: MediaQueryListEvent) => void) => {
+        listeners = listeners.filter((l) => l !== listener);
+      },
+    })) as unknown as typeof window.matchMedia;
+  });
+
+  afterEach(() => {
+    cleanup();
+    window.matchMedia = originalMatchMedia;
+  });
+
+  it("derives the mode from isDark when mode is not set", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" isDark={true}>
+        <ModeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(screen.getByTestId("mode").textContent).toBe("dark");
+    expect(screen.getByTestId("resolved-mode").textContent).toBe("dark");
+  });
+
+  it("follows prefers-color-scheme in system mode", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" mode="system">
+        <ModeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(screen.getByTestId("mode").textContent).toBe("system");
+    expect(screen.getByTestId("resolved-mode").textContent).toBe("light");
+    const lightBackground = document.documentElement.style.getPropertyValue("--md-sys-color-background");
+
+    act(() => setPrefersDark(true));
+
+    expect(screen.getByTestId("resolved-mode").textContent).toBe("dark");
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-background")).not.toBe(lightBackground);
+  });
+
+  it("updates the mode through setMode", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" mode="system">
+        <ModeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    act(() => {
+      fireEvent.click(screen.getByTestId("set-dark"));
+    });
+
+    expect(screen.getByTestId("mode").textContent).toBe("dark");
+    expect(screen.getByTestId("resolved-mode").textContent).toBe("dark");
+    expect(listeners).toHaveLength(0);
+  });
+});
+
+describe("MaterialThemeProvider contrast level", () => {
+  const originalMatchMedia = window.matchMedia;
+  let prefersMoreContrast: boolean;
+
+  const ContrastComponent = () => {
+    const { contrastLevel, setContrastLevel } = useMaterialTheme();
+    return (
+      <div>
+        <div data-testid="contrast-level">{contrastLevel}</div>
+        {/* biome-ignore lint/a11y/useButtonType: <explanation> */}
+        <button onClick={() => setContrastLevel(ContrastLevel.HIGH)} data-testid="set-high">
+          High
+        </button>
+      </div>
+    );
+  };
+
+  const getOnPrimaryContainer = () =>
+    document.documentElement.style.getPropertyValue("--md-sys-color-on-primary-container");
+
+  beforeEach(() => {
+    document.documentElement.style.cssText = "";
+    prefersMoreContrast = false;
+    window.matchMedia = ((query: string) => ({
+      matches: query === "(prefers-contrast: more)" && prefersMoreContrast,
+      media: query,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    })) as unknown as typeof window.matchMedia;
+  });
+
+  afterEach(() => {
+    cleanup();
+    window.matchMedia = originalMatchMedia;
+  });
+
+  it("applies the contrast level prop", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <ContrastComponent />
+      </MaterialThemeProvider>,
+    );
+    const standard = getOnPrimaryContainer();
+    cleanup();
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" contrastLevel={ContrastLevel.MEDIUM}>
+        <ContrastComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(screen.getByTestId("contrast-level").textContent).toBe("0.5");
+    expect(getOnPrimaryContainer()).not.toBe(standard);
+  });
+
+  it("updates the contrast level through setContrastLevel", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <ContrastComponent />
+      </MaterialThemeProvider>,
+    );
+    const standard = getOnPrimaryContainer();
+
+    act(() => {
+      fireEvent.click(screen.getByTestId("set-high"));
+    });
+
+    expect(screen.getByTestId("contrast-level").textContent).toBe("1");
+    expect(getOnPrimaryContainer()).not.toBe(standard);
+  });
+
+  it.each<["medium" | "high", string]>([
+    ["medium", "0.5"],
+    ["high", "1"],
+  ])("maps prefers-contrast: more to the %s level", (systemContrast, expected) => {
+    prefersMoreContrast = true;
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" systemContrast={systemContrast}>
+        <ContrastComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(screen.getByTestId("contrast-level").textContent).toBe(expected);
+  });
+
+  it("ignores prefers-contrast without systemContrast", () => {
+    prefersMoreContrast = true;
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <ContrastComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(screen.getByTestId("contrast-level").textContent).toBe("0");
+  });
+});
+
+describe("MaterialThemeProvider transitions", () => {
+  const originalMatchMedia = window.matchMedia;
+  let prefersReducedMotion: boolean;
+
+  const getPrimary = () => document.documentElement.style.getPropertyValue("--md-sys-color-primary");
+
+  const renderWithTransition = () =>
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" transition={{ duration: 300 }}>
+        <TestComponent />
+      </MaterialThemeProvider>,
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    document.documentElement.style.cssText = "";
+    prefersReducedMotion = false;
+    window.matchMedia = ((query: string) => ({
+      matches: query === "(prefers-reduced-motion: reduce)" && prefersReducedMotion,
+      media: query,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    })) as unknown as typeof window.matchMedia;
+  });
+
+  afterEach(() => {
+    cleanup();
+    jest.useRealTimers();
+    window.matchMedia = originalMatchMedia;
+  });
+
+  it("applies the initial theme without animating", () => {
+    renderWithTransition();
+
+    expect(getPrimary()).toBeTruthy();
+  });
+
+  it("animates to the new theme when the source color changes", () => {
+    renderWithTransition();
+    const initial = getPrimary();
+
+    act(() => {
+      fireEvent.click(screen.getByTestId("change-color"));
+    });
+    expect(getPrimary()).toBe(initial);
+
+    act(() => {
+      jest.advanceTimersByTime(150);
+    });
+    const middle = getPrimary();
+    expect(middle).not.toBe(initial);
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(getPrimary()).not.toBe(middle);
+
+    const theme = createMaterialTheme(argbFromHex("#ff0000"), Variant.FIDELITY);
+    expect(getPrimary()).toBe(getThemeTokens(theme, false).get("--md-sys-color-primary"));
+  });
+
+  it("continues from the current frame when interrupted", () => {
+    let setSourceColor: ((color: string) => void) | undefined;
+    const ColorComponent = () => {
+      setSourceColor = useMaterialTheme().setSourceColor;
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" transition={{ duration: 300 }}>
+        <ColorComponent />
+      </MaterialThemeProvider>,
+    );
+
+    act(() => setSourceColor?.("#ff0000"));
+    act(() => {
+      jest.advanceTimersByTime(150);
+    });
+    const interrupted = getPrimary();
+
+    act(() => setSourceColor?.("#00ff00"));
+    expect(getPrimary()).toBe(interrupted);
+
+    act(() => {
+      jest.advanceTimersByTime(400);
+    });
+    const theme = createMaterialTheme(argbFromHex("#00ff00"), Variant.FIDELITY);
+    expect(getPrimary()).toBe(getThemeTokens(theme, false).get("--md-sys-color-primary"));
+  });
+
+  it("skips the animation when the user prefers reduced motion", () => {
+    prefersReducedMotion = true;
+    renderWithTransition();
+
+    act(() => {
+      fireEvent.click(screen.getByTestId("change-color"));
+    });
+
+    const theme = createMaterialTheme(argbFromHex("#ff0000"), Variant.FIDELITY);
+    expect(getPrimary()).toBe(getThemeTokens(theme, false).get("--md-sys-color-primary"));
+  });
+});
+
+describe("MaterialThemeProvider persistence", () => {
+  let hookResult: MaterialThemeContextType | undefined;
+
+  const PersistenceComponent = () => {
+    hookResult = useMaterialTheme();
+    return null;
+  };
+
+  afterEach(() => {
+    cleanup();
+    window.localStorage.clear();
+  });
+
+  it("restores persisted theme choices over the initial props", () => {
+    const storage = createMemoryStorageAdapter();
+    storage.setItem(
+      "material-theme",
+      serializeThemeState({ sourceColor: "#ff0000", variant: Variant.VIBRANT, mode: "dark", contrastLevel: 0.5 }),
+    );
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" persistence={{ storage }}>
+        <PersistenceComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.materialTheme?.source).toBe(argbFromHex("#ff0000"));
+    expect(hookResult?.variant).toBe(Variant.VIBRANT);
+    expect(hookResult?.mode).toBe("dark");
+    expect(hookResult?.contrastLevel).toBe(0.5);
+  });
+
+  it("saves theme choices when they change", () => {
+    const storage = createMemoryStorageAdapter();
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" persistence={{ storage, key: "theme" }}>
+        <PersistenceComponent />
+      </MaterialThemeProvider>,
+    );
+
+    act(() => {
+      hookResult?.setSourceColor("#00ff00");
+      hookResult?.setMode("system");
+    });
+
+    expect(parseThemeState(storage.getItem("theme"))).toMatchObject({ sourceColor: "#00ff00", mode: "system" });
+  });
+
+  it("falls back to the defaults when the stored state is corrupt", () => {
+    const storage = createMemoryStorageAdapter();
+    storage.setItem("material-theme", "{corrupt");
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" persistence={{ storage }}>
+        <PersistenceComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.materialTheme?.source).toBe(argbFromHex("#006494"));
+
+    act(() => {
+      hookResult?.setMode("dark");
+    });
+
+    expect(parseThemeState(storage.getItem("material-theme"))).toEqual({ mode: "dark" });
+  });
+
+  it("syncs theme choices from other tabs", () => {
+    const storage = createLocalStorageAdapter();
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" persistence={{ storage }}>
+        <PersistenceComponent />
+      </MaterialThemeProvider>,
+    );
+
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "material-theme",
+          newValue: serializeThemeState({ sourceColor: "#0000ff", mode: "dark" }),
+          storageArea: window.localStorage,
+        }),
+      );
+    });
+
+    expect(hookResult?.materialTheme?.source).toBe(argbFromHex("#0000ff"));
+    expect(hookResult?.resolvedMode).toBe("dark");
+  });
+});
+
+describe("MaterialThemeProvider rendering", () => {
+  let renderCount: number;
+  let hookResult: MaterialThemeContextType | undefined;
+
+  const CountingComponent = () => {
+    renderCount += 1;
+    hookResult = useMaterialTheme();
+    return null;
+  };
+
+  beforeEach(() => {
+    renderCount = 0;
+    document.documentElement.style.cssText = "";
+  });
+
+  afterEach(() => {
+    cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it("renders consumers once on mount, with the theme available", () => {
+    const themes: Array<MaterialThemeContextType["materialTheme"]> = [];
+    const FirstRenderComponent = () => {
+      renderCount += 1;
+      themes.push(useMaterialTheme().materialTheme);
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <FirstRenderComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(renderCount).toBe(1);
+    expect(themes[0]?.source).toBe(argbFromHex("#006494"));
+  });
+
+  it("renders consumers once per source color change", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <CountingComponent />
+      </MaterialThemeProvider>,
+    );
+
+    act(() => {
+      hookResult?.setSourceColor("#ff0000");
+    });
+
+    expect(renderCount).toBe(2);
+  });
+
+  it("renders consumers once per option prop change, with the new theme", () => {
+    const consoleError = jest.spyOn(console, "error");
+    const rendered: Array<[number, string]> = [];
+    const RecordingComponent = () => {
+      const { materialTheme, resolvedMode } = useMaterialTheme();
+      rendered.push([materialTheme.customColors.length, resolvedMode]);
+      return null;
+    };
+    const customColors = [{ name: "brand", value: "#ff0000", blend: true }];
+
+    const { rerender } = render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <RecordingComponent />
+      </MaterialThemeProvider>,
+    );
+    rerender(
+      <MaterialThemeProvider defaultSourceColor="#006494" customColors={customColors}>
+        <RecordingComponent />
+      </MaterialThemeProvider>,
+    );
+    rerender(
+      <MaterialThemeProvider defaultSourceColor="#006494" customColors={customColors} isDark>
+        <RecordingComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(rendered).toEqual([
+      [0, "light"],
+      [1, "light"],
+      [1, "dark"],
+    ]);
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it("renders consumers once per choice prop change, with the new values", () => {
+    const rendered: Array<[ThemeVariant, number, string | null]> = [];
+    const RecordingComponent = () => {
+      const { variant, contrastLevel, activeTheme } = useMaterialTheme();
+      rendered.push([variant, contrastLevel, activeTheme]);
+      return null;
+    };
+    const themes = { docs: { sourceColor: "#00ff00" } };
+
+    const { rerender } = render(
+      <MaterialThemeProvider defaultSourceColor="#006494" themes={themes}>
+        <RecordingComponent />
+      </MaterialThemeProvider>,
+    );
+    rerender(
+      <MaterialThemeProvider defaultSourceColor="#006494" themes={themes} variant={Variant.VIBRANT}>
+        <RecordingComponent />
+      </MaterialThemeProvider>,
+    );
+    rerender(
+      <MaterialThemeProvider defaultSourceColor="#006494" themes={themes} variant={Variant.VIBRANT} contrastLevel={1}>
+        <RecordingComponent />
+      </MaterialThemeProvider>,
+    );
+    rerender(
+      <MaterialThemeProvider
+        defaultSourceColor="#006494"
+        themes={themes}
+        variant={Variant.VIBRANT}
+        contrastLevel={1}
+        activeTheme="docs"
+      >
+        <RecordingComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(rendered).toEqual([
+      [Variant.FIDELITY, 0, null],
+      [Variant.VIBRANT, 0, null],
+      [Variant.VIBRANT, 1, null],
+      [Variant.VIBRANT, 1, "docs"],
+    ]);
+  });
+
+  it("reuses the theme for new custom color arrays with the same content", () => {
+    const { rerender } = render(
+      <MaterialThemeProvider
+        defaultSourceColor="#006494"
+        customColors={[{ name: "brand", value: "#ff0000", blend: true }]}
+      >
+        <CountingComponent />
+      </MaterialThemeProvider>,
+    );
+    const theme = hookResult?.materialTheme;
+    const setProperty = jest.spyOn(CSSStyleDeclaration.prototype, "setProperty");
+
+    rerender(
+      <MaterialThemeProvider
+        defaultSourceColor="#006494"
+        customColors={[{ name: "brand", value: "#ff0000", blend: true }]}
+      >
+        <CountingComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.materialTheme).toBe(theme);
+    expect(setProperty).not.toHaveBeenCalled();
+  });
+
+  it("only writes tokens whose values change", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" variant={Variant.TONAL_SPOT}>
+        <CountingComponent />
+      </MaterialThemeProvider>,
+    );
+    const setProperty = jest.spyOn(CSSStyleDeclaration.prototype, "setProperty");
+
+    act(() => {
+      hookResult?.setSourceColor("#ff0000");
+    });
+
+    // Roles of the error palette, among others, do not depend on the source color
+    const before = getThemeTokens(createMaterialTheme(argbFromHex("#006494"), Variant.TONAL_SPOT), false);
+    const after = getThemeTokens(createMaterialTheme(argbFromHex("#ff0000"), Variant.TONAL_SPOT), false);
+    const changed = [...after].filter(([key, value]) => before.get(key) !== value);
+
+    expect(changed.length).toBeLessThan(after.size);
+    expect(setProperty).toHaveBeenCalledTimes(changed.length);
+  });
+
+  it("removes tokens that are no longer generated", () => {
+    const { rerender } = render(
+      <MaterialThemeProvider defaultSourceColor="#006494" palettes={[40]}>
+        <CountingComponent />
+      </MaterialThemeProvider>,
+    );
+    expect(document.documentElement.style.getPropertyValue("--md-ref-palette-primary40")).toBeTruthy();
+
+    rerender(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <CountingComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(document.documentElement.style.getPropertyValue("--md-ref-palette-primary40")).toBe("");
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-primary")).toBeTruthy();
+  });
+});
+
+describe("MaterialThemeProvider named themes", () => {
+  let hookResult: MaterialThemeContextType | undefined;
+
+  const NamedThemeComponent = () => {
+    hookResult = useMaterialTheme();
+    return null;
+  };
+
+  const themes = {
+    tenant: { sourceColor: "#ff0000", variant: Variant.VIBRANT },
+    docs: { sourceColor: "#00ff00", contrastLevel: ContrastLevel.HIGH },
+  };
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("uses the active named theme over the provider's own values", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" themes={themes} activeTheme="tenant">
+        <NamedThemeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.activeTheme).toBe("tenant");
+    expect(hookResult?.materialTheme?.source).toBe(argbFromHex("#ff0000"));
+    expect(hookResult?.variant).toBe(Variant.VIBRANT);
+  });
+
+  it("falls back to the provider's values for options a theme leaves out", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" variant={Variant.NEUTRAL} themes={themes}>
+        <NamedThemeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    act(() => {
+      hookResult?.setActiveTheme("docs");
+    });
+
+    expect(hookResult?.materialTheme?.source).toBe(argbFromHex("#00ff00"));
+    expect(hookResult?.variant).toBe(Variant.NEUTRAL);
+    expect(hookResult?.contrastLevel).toBe(ContrastLevel.HIGH);
+
+    act(() => {
+      hookResult?.setActiveTheme(null);
+    });
+
+    expect(hookResult?.materialTheme?.source).toBe(argbFromHex("#006494"));
+    expect(hookResult?.contrastLevel).toBe(ContrastLevel.STANDARD);
+  });
+
+  it("reuses generated themes when switching back", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" themes={themes} activeTheme="tenant">
+        <NamedThemeComponent />
+      </MaterialThemeProvider>,
+    );
+    const tenantTheme = hookResult?.materialTheme;
+
+    act(() => {
+      hookResult?.setActiveTheme("docs");
+    });
+    expect(hookResult?.materialTheme).not.toBe(tenantTheme);
+
+    act(() => {
+      hookResult?.setActiveTheme("tenant");
+    });
+    expect(hookResult?.materialTheme).toBe(tenantTheme);
+  });
+
+  it("switches to themes registered at runtime", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <NamedThemeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    act(() => {
+      hookResult?.registerTheme("campaign", { sourceColor: "#0000ff", variant: Variant.EXPRESSIVE });
+      hookResult?.setActiveTheme("campaign");
+    });
+
+    expect(hookResult?.materialTheme?.source).toBe(argbFromHex("#0000ff"));
+    expect(hookResult?.variant).toBe(Variant.EXPRESSIVE);
+  });
+
+  it("reports unknown themes and keeps the provider's own theme", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" themes={themes} activeTheme="missing">
+        <NamedThemeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.materialTheme?.source).toBe(argbFromHex("#006494"));
+    expect(consoleError).toHaveBeenCalledWith('Unknown theme "missing"');
+
+    consoleError.mockRestore();
+  });
+});
+
+describe("MaterialThemeProvider imported themes", () => {
+  const themeBuilderFixture: ThemeBuilderJson = JSON.parse(
+    readFileSync(new URL("./fixtures/material-theme.json", import.meta.url), "utf8"),
+  );
+  let hookResult: MaterialThemeContextType | undefined;
+
+  const ImportedThemeComponent = () => {
+    hookResult = useMaterialTheme();
+    return null;
+  };
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("applies an imported theme instead of generating one", () => {
+    const imported = parseThemeBuilderJson(themeBuilderFixture);
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" importedTheme={imported}>
+        <ImportedThemeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.materialTheme).toBe(imported.theme);
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-tertiary")).toBe(
+      themeBuilderFixture.schemes.light?.tertiary?.toLowerCase(),
+    );
+  });
+
+  it("warns about imported values that differ from the generated theme", () => {
+    const consoleWarn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const imported = parseThemeBuilderJson({
+      ...themeBuilderFixture,
+      schemes: { light: { ...themeBuilderFixture.schemes.light, primary: "#123456" } },
+    });
+
+    render(
+      <MaterialThemeProvider importedTheme={imported}>
+        <ImportedThemeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-primary")).toBe("#123456");
+    expect(consoleWarn).toHaveBeenCalledWith(
+      "Imported theme differs from the generated theme in 1 roles, the imported values are used:\n" +
+        "Imported primary in the light scheme is #123456, but #65558F is generated for the same configuration",
+    );
+
+    consoleWarn.mockRestore();
+  });
+
+  it("lets an active named theme take precedence", () => {
+    const imported = parseThemeBuilderJson(themeBuilderFixture);
+
+    render(
+      <MaterialThemeProvider
+        importedTheme={imported}
+        themes={{ tenant: { sourceColor: "#ff0000" } }}
+        activeTheme="tenant"
+      >
+        <ImportedThemeComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.materialTheme.source).toBe(argbFromHex("#ff0000"));
+  });
+});
+
+describe("MaterialThemeProvider typography, shape and motion", () => {
+  let hookResult: MaterialThemeContextType | undefined;
+
+  const SystemComponent = () => {
+    hookResult = useMaterialTheme();
+    return null;
+  };
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("exposes the defaults without applying tokens", () => {
+    render(
+      <MaterialThemeProvider>
+        <SystemComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(hookResult?.typography.scale.bodyMedium.size).toBe(14);
+    expect(hookResult?.shape.medium).toBe(12);
+    expect(hookResult?.motion.duration.short2).toBe(100);
+    expect(document.documentElement.style.getPropertyValue("--md-sys-shape-corner-medium")).toBe("");
+  });
+
+  it("applies the configured tokens and exposes the resolved configs", () => {
+    const { rerender } = render(
+      <MaterialThemeProvider typography={{ brandFont: "Lora" }} shape={{ medium: 10 }} motion>
+        <SystemComponent />
+      </MaterialThemeProvider>,
+    );
+    const style = document.documentElement.style;
+
+    expect(hookResult?.typography.brandFont).toBe("Lora");
+    expect(hookResult?.shape.medium).toBe(10);
+    expect(style.getPropertyValue("--md-ref-typeface-brand")).toBe("Lora");
+    expect(style.getPropertyValue("--md-sys-shape-corner-medium")).toBe("10px");
+    expect(style.getPropertyValue("--md-sys-motion-easing-standard")).toBe("cubic-bezier(0.2, 0, 0, 1)");
+
+    // New objects with the same values keep the resolved configs
+    const typography = hookResult?.typography;
+    rerender(
+      <MaterialThemeProvider typography={{ brandFont: "Lora" }} shape={{ medium: 10 }} motion>
+        <SystemComponent />
+      </MaterialThemeProvider>,
+    );
+    expect(hookResult?.typography).toBe(typography);
+
+    rerender(
+      <MaterialThemeProvider typography={{ brandFont: "Lora" }}>
+        <SystemComponent />
+      </MaterialThemeProvider>,
+    );
+    expect(style.getPropertyValue("--md-sys-shape-corner-medium")).toBe("");
+    expect(hookResult?.shape.medium).toBe(12);
+  });
+});
+
 // Hook tests
 describe("useMaterialTheme hook", () => {
   it("returns the correct context values", () => {
@@ -107,5 +1279,14 @@ describe("useMaterialTheme hook", () => {
     expect(hookResult.materialTheme).toBeDefined();
     expect(hookResult.setSourceColor).toBeDefined();
     expect(hookResult.currentScheme).toBeDefined();
+    expect(hookResult.mode).toBe("light");
+    expect(hookResult.resolvedMode).toBe("light");
+    expect(hookResult.setMode).toBeDefined();
+    expect(hookResult.contrastLevel).toBe(0);
+    expect(hookResult.setContrastLevel).toBeDefined();
+    expect(hookResult.setSourceImage).toBeDefined();
+    expect(hookResult.variant).toBe(Variant.FIDELITY);
+    expect(hookResult.setVariant).toBeDefined();
+    expect(hookResult.getTone("primary", 100)).toBe("#ffffff");
   });
 });
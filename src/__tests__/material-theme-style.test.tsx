@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from "@jest/globals";
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { argbFromHex } from "@material/material-color-utilities";
+import { MaterialThemeProvider } from "../material-theme-provider";
+import { MaterialThemeStyle } from "../material-theme-style";
+import { createMaterialTheme, renderThemeCss } from "../theme-utils";
+import { Variant } from "../types";
+
+describe("MaterialThemeStyle", () => {
+  it("renders the theme stylesheet during server rendering", () => {
+    const html = renderToString(<MaterialThemeStyle sourceColor="#006494" variant={Variant.TONAL_SPOT} />);
+    const css = renderThemeCss(createMaterialTheme(argbFromHex("#006494"), Variant.TONAL_SPOT));
+
+    expect(html).toBe(`<style data-material-theme-style="">${css}</style>`);
+  });
+
+  it("includes custom colors and the nonce", () => {
+    const html = renderToString(
+      <MaterialThemeStyle nonce="abc" customColors={[{ name: "brand", value: "#ff0000", blend: true }]} />,
+    );
+
+    expect(html).toContain('nonce="abc"');
+    expect(html).toContain("--md-custom-color-brand:");
+  });
+
+  it("renders alongside the provider on the server", () => {
+    const html = renderToString(
+      <MaterialThemeProvider mode="system">
+        <MaterialThemeStyle />
+        <main>content</main>
+      </MaterialThemeProvider>,
+    );
+
+    expect(html).toContain("<main>content</main>");
+  });
+
+  it("renders the scoped provider wrapper on the server", () => {
+    const html = renderToString(
+      <MaterialThemeProvider scoped>
+        <main>content</main>
+      </MaterialThemeProvider>,
+    );
+
+    expect(html).toBe('<div data-material-theme-scope="" style="display:contents"><main>content</main></div>');
+  });
+});
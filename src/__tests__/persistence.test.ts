@@ -0,0 +1,92 @@
+import { describe, expect, it, afterEach, jest } from "@jest/globals";
+import {
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  createSessionStorageAdapter,
+  parseThemeState,
+  serializeThemeState,
+  THEME_STATE_VERSION,
+} from "../persistence";
+import { Variant } from "../types";
+
+describe("serializeThemeState / parseThemeState", () => {
+  it("round-trips theme state", () => {
+    const state = { sourceColor: "#6d509f", variant: Variant.VIBRANT, mode: "system" as const, contrastLevel: 0.5 };
+
+    expect(parseThemeState(serializeThemeState(state))).toEqual(state);
+  });
+
+  it("stores the format version", () => {
+    expect(JSON.parse(serializeThemeState({})).version).toBe(THEME_STATE_VERSION);
+  });
+
+  it.each([
+    ["missing values", null],
+    ["invalid JSON", "{not json"],
+    ["other versions", JSON.stringify({ version: THEME_STATE_VERSION + 1, state: {} })],
+    ["invalid source colors", JSON.stringify({ version: THEME_STATE_VERSION, state: { sourceColor: "red" } })],
+    ["unknown variants", JSON.stringify({ version: THEME_STATE_VERSION, state: { variant: 42 } })],
+    ["unregistered variants", JSON.stringify({ version: THEME_STATE_VERSION, state: { variant: "muted" } })],
+    ["unknown modes", JSON.stringify({ version: THEME_STATE_VERSION, state: { mode: "dim" } })],
+    ["out of range contrast", JSON.stringify({ version: THEME_STATE_VERSION, state: { contrastLevel: 2 } })],
+  ])("rejects %s", (_name, value) => {
+    expect(parseThemeState(value)).toBeNull();
+  });
+});
+
+describe("createMemoryStorageAdapter", () => {
+  it("stores values and notifies subscribers", () => {
+    const storage = createMemoryStorageAdapter();
+    const listener = jest.fn();
+    const unsubscribe = storage.subscribe?.("theme", listener);
+
+    storage.setItem("theme", "a");
+    storage.setItem("other", "b");
+    storage.removeItem("theme");
+
+    expect(storage.getItem("other")).toBe("b");
+    expect(storage.getItem("theme")).toBeNull();
+    expect(listener.mock.calls).toEqual([["a"], [null]]);
+
+    unsubscribe?.();
+    storage.setItem("theme", "c");
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("web storage adapters", () => {
+  afterEach(() => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it("reads and writes localStorage and sessionStorage", () => {
+    createLocalStorageAdapter().setItem("theme", "local");
+    createSessionStorageAdapter().setItem("theme", "session");
+
+    expect(window.localStorage.getItem("theme")).toBe("local");
+    expect(window.sessionStorage.getItem("theme")).toBe("session");
+    expect(createLocalStorageAdapter().getItem("theme")).toBe("local");
+  });
+
+  it("ignores storage errors", () => {
+    jest.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new Error("QuotaExceededError");
+    });
+
+    expect(() => createLocalStorageAdapter().setItem("theme", "value")).not.toThrow();
+  });
+
+  it("reports changes from other tabs for its key", () => {
+    const listener = jest.fn();
+    const unsubscribe = createLocalStorageAdapter().subscribe?.("theme", listener);
+
+    window.dispatchEvent(new StorageEvent("storage", { key: "theme", newValue: "a", storageArea: localStorage }));
+    window.dispatchEvent(new StorageEvent("storage", { key: "other", newValue: "b", storageArea: localStorage }));
+    window.dispatchEvent(new StorageEvent("storage", { key: "theme", newValue: "c", storageArea: sessionStorage }));
+
+    expect(listener.mock.calls).toEqual([["a"]]);
+    unsubscribe?.();
+  });
+});
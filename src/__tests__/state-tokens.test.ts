@@ -0,0 +1,81 @@
+import { createMaterialTheme, getThemeTokens } from "../theme-utils";
+import {
+  blendOverlay,
+  ELEVATION_TINT_OPACITY,
+  getElevationSurface,
+  getStateLayerColor,
+  getStateTokens,
+  STATE_LAYER_OPACITY,
+} from "../state-tokens";
+import { STATE_LAYER_ROLES } from "../types";
+import { argbFromHex, hexFromArgb } from "@material/material-color-utilities";
+
+const theme = createMaterialTheme(argbFromHex("#6D509F"));
+
+describe("blendOverlay", () => {
+  it("composites the overlay at the given opacity", () => {
+    expect(hexFromArgb(blendOverlay(argbFromHex("#ffffff"), argbFromHex("#000000"), 0.5))).toBe("#808080");
+    expect(blendOverlay(argbFromHex("#6750a4"), argbFromHex("#ffffff"), 0)).toBe(argbFromHex("#6750a4"));
+  });
+});
+
+describe("getStateLayerColor", () => {
+  it("blends the content role over the container role", () => {
+    const { light } = theme.schemes;
+
+    expect(getStateLayerColor(light, "primary", "hover")).toBe(blendOverlay(light.primary, light.onPrimary, 0.08));
+    expect(getStateLayerColor(light, "surfaceContainer", "dragged")).toBe(
+      blendOverlay(light.surfaceContainer, light.onSurface, 0.16),
+    );
+  });
+});
+
+describe("getElevationSurface", () => {
+  it("tints the surface more at higher levels", () => {
+    const { dark } = theme.schemes;
+
+    expect(getElevationSurface(dark, 0)).toBe(dark.surface);
+    expect(getElevationSurface(dark, 5)).toBe(blendOverlay(dark.surface, dark.surfaceTint, 0.14));
+  });
+});
+
+describe("getStateTokens", () => {
+  it("collects opacities, state colors and elevation surfaces", () => {
+    const tokens = getStateTokens(theme.schemes.light);
+
+    expect(tokens.opacity).toEqual(STATE_LAYER_OPACITY);
+    expect(Object.keys(tokens.colors)).toEqual(Object.keys(STATE_LAYER_ROLES));
+    expect(tokens.colors.secondaryContainer.pressed).toBe(
+      hexFromArgb(getStateLayerColor(theme.schemes.light, "secondaryContainer", "pressed")),
+    );
+    expect(tokens.elevation).toHaveLength(ELEVATION_TINT_OPACITY.length);
+  });
+});
+
+describe("getThemeTokens states and elevation", () => {
+  it("omits state and elevation tokens by default", () => {
+    const names = [...getThemeTokens(theme, false).keys()];
+
+    expect(names.some((name) => name.startsWith("--md-sys-state-"))).toBe(false);
+    expect(names.some((name) => name.startsWith("--md-sys-elevation-"))).toBe(false);
+  });
+
+  it("outputs opacities, state colors and elevation surfaces", () => {
+    const tokens = getThemeTokens(theme, true, { states: true, elevation: true });
+    const { dark } = theme.schemes;
+
+    expect(tokens.get("--md-sys-state-hover-state-layer-opacity")).toBe("0.08");
+    expect(tokens.get("--md-sys-state-dragged-state-layer-opacity")).toBe("0.16");
+    expect(tokens.get("--md-sys-state-primary-container-focus")).toBe(
+      hexFromArgb(getStateLayerColor(dark, "primaryContainer", "focus")),
+    );
+    expect(tokens.get("--md-sys-elevation-surface-level0")).toBe(hexFromArgb(dark.surface));
+    expect(tokens.get("--md-sys-elevation-surface-level3")).toBe(hexFromArgb(getElevationSurface(dark, 3)));
+  });
+
+  it("formats state colors like other colors", () => {
+    const tokens = getThemeTokens(theme, false, { states: true, formats: ["hex", "rgb-channels"] });
+
+    expect(tokens.get("--md-sys-state-primary-hover-rgb")).toMatch(/^\d+ \d+ \d+$/);
+  });
+});
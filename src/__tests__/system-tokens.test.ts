@@ -0,0 +1,77 @@
+import { describe, expect, it } from "@jest/globals";
+import { argbFromHex } from "@material/material-color-utilities";
+import {
+  DEFAULT_MOTION,
+  DEFAULT_SHAPE,
+  DEFAULT_TYPOGRAPHY,
+  getMotionTokens,
+  getShapeTokens,
+  getTypographyTokens,
+  resolveMotion,
+  resolveShape,
+  resolveTypography,
+} from "../system-tokens";
+import { createMaterialTheme, getThemeTokens } from "../theme-utils";
+
+describe("resolveTypography", () => {
+  it("returns the Material Design 3 defaults without options", () => {
+    expect(resolveTypography()).toEqual(DEFAULT_TYPOGRAPHY);
+  });
+
+  it("merges typefaces, weights and individual type scale properties", () => {
+    const typography = resolveTypography({
+      brandFont: '"Google Sans", sans-serif',
+      weights: { medium: 600 },
+      scale: { bodyLarge: { size: 18 } },
+    });
+
+    expect(typography.brandFont).toBe('"Google Sans", sans-serif');
+    expect(typography.plainFont).toBe("Roboto");
+    expect(typography.weights).toEqual({ regular: 400, medium: 600, bold: 700 });
+    expect(typography.scale.bodyLarge).toEqual({ ...DEFAULT_TYPOGRAPHY.scale.bodyLarge, size: 18 });
+    expect(typography.scale.bodyMedium).toBe(DEFAULT_TYPOGRAPHY.scale.bodyMedium);
+  });
+});
+
+describe("resolveShape and resolveMotion", () => {
+  it("replace only the given values", () => {
+    expect(resolveShape({ medium: 10 })).toEqual({ ...DEFAULT_SHAPE, medium: 10 });
+    expect(resolveMotion({ duration: { short1: 40 } }).duration).toEqual({ ...DEFAULT_MOTION.duration, short1: 40 });
+    expect(resolveMotion().easing).toEqual(DEFAULT_MOTION.easing);
+  });
+});
+
+describe("system tokens", () => {
+  it("outputs the type scale in rem, referencing the typeface tokens", () => {
+    const tokens = getTypographyTokens(DEFAULT_TYPOGRAPHY);
+
+    expect(tokens.get("--md-ref-typeface-brand")).toBe("Roboto");
+    expect(tokens.get("--md-ref-typeface-weight-medium")).toBe("500");
+    expect(tokens.get("--md-sys-typescale-display-large-font")).toBe("var(--md-ref-typeface-brand)");
+    expect(tokens.get("--md-sys-typescale-display-large-size")).toBe("3.5625rem");
+    expect(tokens.get("--md-sys-typescale-display-large-line-height")).toBe("4rem");
+    expect(tokens.get("--md-sys-typescale-display-large-tracking")).toBe("-0.015625rem");
+    expect(tokens.get("--md-sys-typescale-label-small-weight")).toBe("var(--md-ref-typeface-weight-medium)");
+  });
+
+  it("outputs corners in pixels and durations in milliseconds", () => {
+    expect(getShapeTokens(DEFAULT_SHAPE).get("--md-sys-shape-corner-extra-small")).toBe("4px");
+    expect(getShapeTokens(DEFAULT_SHAPE).get("--md-sys-shape-corner-full")).toBe("9999px");
+
+    const motion = getMotionTokens(DEFAULT_MOTION);
+    expect(motion.get("--md-sys-motion-easing-emphasized-decelerate")).toBe("cubic-bezier(0.05, 0.7, 0.1, 1)");
+    expect(motion.get("--md-sys-motion-duration-extra-long4")).toBe("1000ms");
+  });
+
+  it("are output with the color tokens when enabled", () => {
+    const theme = createMaterialTheme(argbFromHex("#6D509F"));
+
+    expect(getThemeTokens(theme, false).has("--md-sys-shape-corner-small")).toBe(false);
+
+    const tokens = getThemeTokens(theme, true, { typography: { plainFont: "Inter" }, shape: true, motion: true });
+    expect(tokens.get("--md-sys-color-primary")).toBeDefined();
+    expect(tokens.get("--md-ref-typeface-plain")).toBe("Inter");
+    expect(tokens.get("--md-sys-shape-corner-small")).toBe("8px");
+    expect(tokens.get("--md-sys-motion-duration-medium2")).toBe("300ms");
+  });
+});
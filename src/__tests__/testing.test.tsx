@@ -0,0 +1,161 @@
+import { describe, expect, it, afterEach, jest } from "@jest/globals";
+import React from "react";
+import { render, screen, act, cleanup } from "@testing-library/react";
+import { hexFromArgb } from "@material/material-color-utilities";
+import { useMaterialTheme } from "../material-theme-provider";
+import { getThemeTokens } from "../theme-utils";
+import type { MaterialThemeContextType } from "../types";
+import {
+  getAppliedTokens,
+  getMockTheme,
+  materialThemeMatchers,
+  type MaterialThemeMatchers,
+  MockMaterialThemeProvider,
+  renderWithMaterialTheme,
+} from "../testing";
+
+declare module "@jest/expect" {
+  interface Matchers<R extends void | Promise<void>> extends MaterialThemeMatchers<R> {}
+}
+
+expect.extend(materialThemeMatchers);
+
+describe("MockMaterialThemeProvider", () => {
+  let hookResult: MaterialThemeContextType | undefined;
+
+  const ContextComponent = () => {
+    hookResult = useMaterialTheme();
+    return <span data-testid="content" />;
+  };
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("provides the preset theme in the given mode", () => {
+    render(
+      <MockMaterialThemeProvider theme="blue" mode="dark">
+        <ContextComponent />
+      </MockMaterialThemeProvider>,
+    );
+
+    const theme = getMockTheme("blue");
+    expect(hookResult?.materialTheme).toBe(theme);
+    expect(hookResult?.currentScheme).toBe(theme.schemes.dark);
+    expect(hookResult?.resolvedMode).toBe("dark");
+    expect(screen.getByTestId("content")).toHaveThemeToken(
+      "--md-sys-color-primary",
+      hexFromArgb(theme.schemes.dark.primary),
+    );
+  });
+
+  it("generates the same theme for every test", () => {
+    expect(hexFromArgb(getMockTheme("baseline").schemes.light.primary)).toBe("#65558f");
+    expect(getMockTheme("highContrast").schemes.light.contrastLevel).toBe(1);
+  });
+
+  it("uses the given context values", () => {
+    const setSourceColor = jest.fn<(color: string) => void>();
+
+    render(
+      <MockMaterialThemeProvider value={{ setSourceColor }}>
+        <ContextComponent />
+      </MockMaterialThemeProvider>,
+    );
+    act(() => {
+      hookResult?.setSourceColor("#ff0000");
+    });
+
+    expect(setSourceColor).toHaveBeenCalledWith("#ff0000");
+    expect(hookResult?.materialTheme).toBe(getMockTheme("baseline"));
+  });
+});
+
+describe("renderWithMaterialTheme", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("renders inside a MaterialThemeProvider", () => {
+    const SourceComponent = () => <span>{hexFromArgb(useMaterialTheme().materialTheme.source)}</span>;
+
+    renderWithMaterialTheme(<SourceComponent />, { providerProps: { defaultSourceColor: "#0061a4", mode: "dark" } });
+
+    expect(screen.getByText("#0061a4")).toBeTruthy();
+    expect(document.documentElement).toHaveThemeToken("--md-sys-color-primary");
+  });
+});
+
+describe("getAppliedTokens", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("reads the tokens set on an element", () => {
+    const { container } = render(
+      <MockMaterialThemeProvider theme="green">
+        <span />
+      </MockMaterialThemeProvider>,
+    );
+
+    expect(getAppliedTokens(container.firstElementChild as HTMLElement)).toEqual(
+      Object.fromEntries(getThemeTokens(getMockTheme("green"), false, { typography: true, shape: true, motion: true })),
+    );
+    expect(getAppliedTokens(document.body)).toEqual({});
+  });
+});
+
+describe("materialThemeMatchers", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("matches token names and values", () => {
+    render(
+      <MockMaterialThemeProvider>
+        <span data-testid="content" />
+      </MockMaterialThemeProvider>,
+    );
+    const element = screen.getByTestId("content");
+
+    expect(element).toHaveThemeToken("--md-sys-color-primary", "#65558F");
+    expect(element).not.toHaveThemeToken("--md-sys-color-primary", "#000000");
+    expect(element).not.toHaveThemeToken("--md-sys-color-unknown");
+    expect(() => expect(element).toHaveThemeToken("--md-sys-color-primary", "#000000")).toThrow(
+      "Expected theme token --md-sys-color-primary to be #000000, but it is #65558f",
+    );
+  });
+
+  it("checks the contrast of hex pairs", () => {
+    expect(["#000000", "#ffffff"]).toMeetContrast("AAA");
+    expect(["#767676", "#ffffff"]).toMeetContrast("AA");
+    expect(["#767676", "#ffffff"]).not.toMeetContrast("AAA");
+    expect(["#949494", "#ffffff"]).toMeetContrast("AA", "graphic");
+    expect(() => expect(["#999999", "#ffffff"]).toMeetContrast()).toThrow(
+      "Expected #999999 on #ffffff to meet WCAG AA for text (4.5:1), but the contrast is 2.85:1",
+    );
+  });
+
+  it("resolves the inline colors of an element and its ancestors", () => {
+    render(
+      <div style={{ backgroundColor: "#ffffff" }}>
+        <span data-testid="label" style={{ color: "rgb(0, 0, 0)" }} />
+        <span data-testid="low" style={{ color: "#999999" }} />
+      </div>,
+    );
+
+    expect(screen.getByTestId("label")).toMeetContrast("AAA");
+    expect(screen.getByTestId("low")).not.toMeetContrast("AA");
+  });
+
+  it("checks token pairs read with getAppliedTokens", () => {
+    const { container } = render(
+      <MockMaterialThemeProvider>
+        <span />
+      </MockMaterialThemeProvider>,
+    );
+    const tokens = getAppliedTokens(container.firstElementChild as HTMLElement);
+
+    expect([tokens["--md-sys-color-on-primary"], tokens["--md-sys-color-primary"]]).toMeetContrast("AA");
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { readFileSync } from "node:fs";
+import { argbFromHex, hexFromArgb, TonalPalette } from "@material/material-color-utilities";
+import { formatThemeBuilderMismatch, parseThemeBuilderJson, toThemeBuilderJson } from "../theme-builder";
+import { createMaterialTheme, customColorsFromHex, seedColorsFromHex } from "../theme-utils";
+import { COLOR_ROLES, type ThemeBuilderJson, Variant } from "../types";
+
+const fixture = readFileSync(new URL("./fixtures/material-theme.json", import.meta.url), "utf8");
+const fixtureJson: ThemeBuilderJson = JSON.parse(fixture);
+
+describe("parseThemeBuilderJson", () => {
+  it("reads the seed, core and extended colors", () => {
+    const imported = parseThemeBuilderJson(fixture);
+
+    expect(imported.sourceColor).toBe("#6750A4");
+    expect(imported.seedColors).toEqual({ tertiary: "#00897B" });
+    expect(imported.customColors).toEqual([
+      { name: "Brand", value: "#FF5722", blend: true },
+      { name: "Warning", value: "#FFB300", blend: false },
+    ]);
+    expect(imported.theme.customColors.map((group) => group.color.name)).toEqual(["Brand", "Warning"]);
+  });
+
+  it("keeps the seed as the source color when the primary core color is changed", () => {
+    const edited = { ...fixtureJson, coreColors: { ...fixtureJson.coreColors, primary: "#B3261E" } };
+
+    const imported = parseThemeBuilderJson(edited);
+    const { light } = imported.theme.schemes;
+    const generated = createMaterialTheme(argbFromHex("#6750A4"), Variant.TONAL_SPOT).schemes.light;
+
+    expect(imported.sourceColor).toBe("#6750A4");
+    expect(imported.seedColors).toEqual({ primary: "#B3261E", tertiary: "#00897B" });
+    expect(imported.theme.source).toBe(argbFromHex("#6750A4"));
+    expect(light.primaryPalette.hue).toBeCloseTo(TonalPalette.fromInt(argbFromHex("#B3261E")).hue);
+    expect(light.secondaryPalette.hue).toBeCloseTo(generated.secondaryPalette.hue);
+    expect(light.neutralPalette.hue).toBeCloseTo(generated.neutralPalette.hue);
+  });
+
+  it("matches the generated theme when the file is unchanged", () => {
+    const imported = parseThemeBuilderJson(fixtureJson);
+    const generated = createMaterialTheme(
+      argbFromHex("#6750A4"),
+      Variant.TONAL_SPOT,
+      0,
+      customColorsFromHex(imported.customColors),
+      seedColorsFromHex(imported.seedColors),
+    );
+
+    expect(imported.mismatches).toEqual([]);
+    for (const role of COLOR_ROLES) {
+      expect(imported.theme.schemes.light[role]).toBe(generated.schemes.light[role]);
+      expect(imported.theme.schemes.dark[role]).toBe(generated.schemes.dark[role]);
+    }
+  });
+
+  it("imports the schemes of the requested contrast level", () => {
+    const imported = parseThemeBuilderJson(fixture, { contrastLevel: 1 });
+
+    expect(imported.contrastLevel).toBe(1);
+    expect(hexFromArgb(imported.theme.schemes.dark.primary).toUpperCase()).toBe(
+      fixtureJson.schemes["dark-high-contrast"]?.primary,
+    );
+    expect(() => parseThemeBuilderJson(fixture, { contrastLevel: 0.3 })).toThrow(
+      "Material Theme Builder exports no schemes for contrast level 0.3",
+    );
+  });
+
+  it("uses and reports imported values that differ from the generated theme", () => {
+    const edited: ThemeBuilderJson = {
+      ...fixtureJson,
+      schemes: {
+        ...fixtureJson.schemes,
+        light: { ...fixtureJson.schemes.light, primary: "#123456" },
+        "dark-high-contrast": { ...fixtureJson.schemes["dark-high-contrast"], surface: "#000000" },
+      },
+    };
+
+    const imported = parseThemeBuilderJson(edited);
+
+    expect(hexFromArgb(imported.theme.schemes.light.primary)).toBe("#123456");
+    expect(imported.mismatches).toEqual([
+      { scheme: "light", role: "primary", imported: "#123456", generated: "#65558F" },
+      {
+        scheme: "dark-high-contrast",
+        role: "surface",
+        imported: "#000000",
+        generated: fixtureJson.schemes["dark-high-contrast"]?.surface,
+      },
+    ]);
+    expect(formatThemeBuilderMismatch(imported.mismatches[0])).toBe(
+      "Imported primary in the light scheme is #123456, but #65558F is generated for the same configuration",
+    );
+  });
+
+  it("reports and skips invalid scheme values", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const edited = { ...fixtureJson, schemes: { light: { ...fixtureJson.schemes.light, primary: "blue" } } };
+
+    const imported = parseThemeBuilderJson(edited);
+
+    expect(imported.mismatches).toEqual([]);
+    expect(consoleError).toHaveBeenCalledWith('Invalid hex value "blue" for color role "primary" in the light scheme');
+
+    consoleError.mockRestore();
+  });
+
+  it("rejects files that are not Theme Builder exports", () => {
+    expect(() => parseThemeBuilderJson("{")).toThrow("Invalid Material Theme Builder JSON");
+    expect(() => parseThemeBuilderJson("null")).toThrow("Invalid Material Theme Builder JSON: expected an object");
+    expect(() => parseThemeBuilderJson('{"seed":"purple"}')).toThrow(
+      'Invalid Material Theme Builder JSON: seed color "purple" is not a hex color',
+    );
+  });
+});
+
+describe("toThemeBuilderJson", () => {
+  it("round-trips the seed, core colors and values of the fixture", () => {
+    const imported = parseThemeBuilderJson(fixture);
+    const exported = toThemeBuilderJson(imported.theme, { seedColors: imported.seedColors });
+    const { seed, coreColors, extendedColors, schemes, palettes }: ThemeBuilderJson = JSON.parse(exported);
+
+    // Compared by value, as the key order of a file does not matter
+    expect(seed).toBe(fixtureJson.seed);
+    expect(coreColors).toEqual(fixtureJson.coreColors);
+    expect(extendedColors).toEqual(fixtureJson.extendedColors);
+    expect(schemes).toEqual(fixtureJson.schemes);
+    expect(palettes).toEqual(fixtureJson.palettes);
+    expect(parseThemeBuilderJson(exported).mismatches).toEqual([]);
+  });
+
+  it("keeps edited values when exporting an imported theme", () => {
+    const edited = { ...fixtureJson, schemes: { light: { ...fixtureJson.schemes.light, primary: "#123456" } } };
+
+    const exported: ThemeBuilderJson = JSON.parse(toThemeBuilderJson(parseThemeBuilderJson(edited).theme));
+
+    expect(exported.schemes.light?.primary).toBe("#123456");
+    expect(exported.schemes["light-medium-contrast"]).toEqual(fixtureJson.schemes["light-medium-contrast"]);
+  });
+
+  it("exports every scheme and palette of a generated theme", () => {
+    const theme = createMaterialTheme(argbFromHex("#006494"), Variant.TONAL_SPOT, 0.5);
+
+    const exported: ThemeBuilderJson = JSON.parse(toThemeBuilderJson(theme));
+
+    expect(Object.keys(exported.schemes)).toEqual([
+      "light",
+      "light-medium-contrast",
+      "light-high-contrast",
+      "dark",
+      "dark-medium-contrast",
+      "dark-high-contrast",
+    ]);
+    const roles = Object.keys(exported.schemes.light ?? {});
+    expect(roles.slice(0, 3)).toEqual(["primary", "surfaceTint", "onPrimary"]);
+    expect([...roles].sort()).toEqual([...COLOR_ROLES].sort());
+    expect(exported.schemes["light-medium-contrast"]?.primary).toBe(
+      hexFromArgb(theme.schemes.light.primary).toUpperCase(),
+    );
+    expect(Object.keys(exported.palettes ?? {})).toEqual([
+      "primary",
+      "secondary",
+      "tertiary",
+      "neutral",
+      "neutral-variant",
+    ]);
+    expect(exported.palettes?.primary["40"]).toBe(
+      hexFromArgb(theme.schemes.light.primaryPalette.tone(40)).toUpperCase(),
+    );
+  });
+});
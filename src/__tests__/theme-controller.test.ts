@@ -0,0 +1,395 @@
+import { describe, expect, it, beforeEach, afterEach, jest } from "@jest/globals";
+import { argbFromHex } from "@material/material-color-utilities";
+import { createThemeController } from "../theme-controller";
+import { createMaterialTheme, getThemeTokens } from "../theme-utils";
+import { createMemoryStorageAdapter, parseThemeState, serializeThemeState } from "../persistence";
+import { ContrastLevel, type SchemeFactory, Variant } from "../types";
+import { getSchemeFactory, registerVariant, unregisterVariant } from "../variants";
+
+type ChangeListener = (event: MediaQueryListEvent) => void;
+
+describe("createThemeController", () => {
+  beforeEach(() => {
+    document.documentElement.style.cssText = "";
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("generates the theme from the initial values", () => {
+    const controller = createThemeController({
+      source: "#006494",
+      variant: Variant.VIBRANT,
+      contrast: ContrastLevel.MEDIUM,
+      mode: "dark",
+    });
+    const state = controller.getState();
+
+    expect(state.theme).toEqual(createMaterialTheme(argbFromHex("#006494"), Variant.VIBRANT, ContrastLevel.MEDIUM));
+    expect(state.scheme).toBe(state.theme.schemes.dark);
+    expect(state.resolvedMode).toBe("dark");
+    expect(state.contrastLevel).toBe(ContrastLevel.MEDIUM);
+  });
+
+  it("defaults to the provider's source color and variant", () => {
+    const { sourceColor, variant, mode, contrastLevel, activeTheme } = createThemeController().getState();
+
+    expect({ sourceColor, variant, mode, contrastLevel, activeTheme }).toEqual({
+      sourceColor: "#6D509F",
+      variant: Variant.FIDELITY,
+      mode: "light",
+      contrastLevel: ContrastLevel.STANDARD,
+      activeTheme: null,
+    });
+  });
+
+  it("notifies subscribers when the state changes", () => {
+    const controller = createThemeController({ source: "#006494" });
+    const listener = jest.fn();
+    const unsubscribe = controller.subscribe(listener);
+    const initial = controller.getState();
+
+    controller.setSourceColor("#ff0000");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(controller.getState()).not.toBe(initial);
+    expect(controller.getState().theme.source).toBe(argbFromHex("#ff0000"));
+
+    unsubscribe();
+    controller.setSourceColor("#00ff00");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the snapshot when nothing changes", () => {
+    const controller = createThemeController({
+      source: "#006494",
+      customColors: [{ name: "brand", value: "#ff0000", blend: true }],
+    });
+    const listener = jest.fn();
+    controller.subscribe(listener);
+    const initial = controller.getState();
+
+    controller.setSourceColor("#006494");
+    controller.setOptions({ customColors: [{ name: "brand", value: "#ff0000", blend: true }] });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(controller.getState()).toBe(initial);
+  });
+
+  it("applies the same tokens as getThemeTokens", () => {
+    const controller = createThemeController({ source: "#006494", mode: "dark", states: true });
+    controller.apply();
+
+    const tokens = getThemeTokens(controller.getState().theme, true, { states: true });
+    for (const [key, value] of tokens) {
+      expect(document.documentElement.style.getPropertyValue(key)).toBe(value);
+    }
+  });
+
+  it("only writes tokens whose values change", () => {
+    const controller = createThemeController({ source: "#006494", variant: Variant.TONAL_SPOT });
+    controller.apply();
+    const setProperty = jest.spyOn(CSSStyleDeclaration.prototype, "setProperty");
+
+    controller.apply();
+    expect(setProperty).not.toHaveBeenCalled();
+
+    controller.setSourceColor("#ff0000");
+    controller.apply();
+
+    const before = getThemeTokens(createMaterialTheme(argbFromHex("#006494"), Variant.TONAL_SPOT), false);
+    const after = getThemeTokens(createMaterialTheme(argbFromHex("#ff0000"), Variant.TONAL_SPOT), false);
+    const changed = [...after].filter(([key, value]) => before.get(key) !== value);
+    expect(setProperty).toHaveBeenCalledTimes(changed.length);
+  });
+
+  it("removes tokens that are no longer generated", () => {
+    const controller = createThemeController({ source: "#006494", palettes: [40] });
+    controller.apply();
+    expect(document.documentElement.style.getPropertyValue("--md-ref-palette-primary40")).toBeTruthy();
+
+    controller.setOptions({ palettes: undefined });
+    controller.apply();
+
+    expect(document.documentElement.style.getPropertyValue("--md-ref-palette-primary40")).toBe("");
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-primary")).toBeTruthy();
+  });
+
+  it("applies tokens to a target element and removes them when destroyed", () => {
+    const target = document.createElement("section");
+    const controller = createThemeController({ source: "#006494", target });
+
+    controller.apply();
+    expect(target.style.getPropertyValue("--md-sys-color-primary")).toBeTruthy();
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-primary")).toBe("");
+
+    controller.destroy();
+    expect(target.style.getPropertyValue("--md-sys-color-primary")).toBe("");
+  });
+
+  it("moves the tokens when the target changes", () => {
+    const first = document.createElement("section");
+    const second = document.createElement("section");
+    const controller = createThemeController({ target: first });
+    controller.apply();
+
+    controller.setOptions({ target: second });
+    controller.apply();
+
+    expect(first.style.getPropertyValue("--md-sys-color-primary")).toBe("");
+    expect(second.style.getPropertyValue("--md-sys-color-primary")).toBeTruthy();
+  });
+
+  it("keeps the last valid theme when the source color is invalid", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const controller = createThemeController({ source: "#006494" });
+    const validTheme = controller.getState().theme;
+
+    controller.setSourceColor("not-a-color");
+
+    expect(controller.getState().theme).toBe(validTheme);
+    expect(controller.getState().sourceColor).toBe("#006494");
+    expect(consoleError).toHaveBeenCalledWith('Invalid hex value "not-a-color" for source color');
+  });
+
+  it("falls back to the default theme with the configured contrast level at first", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const { theme } = createThemeController({ source: "not-a-color", contrast: ContrastLevel.HIGH }).getState();
+
+    expect(theme.source).toBe(argbFromHex("#6D509F"));
+    expect(theme.schemes.light.variant).toBe(Variant.FIDELITY);
+    expect(theme.schemes.light.contrastLevel).toBe(ContrastLevel.HIGH);
+  });
+
+  it("does not reuse themes of a replaced or removed custom variant", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const createScheme =
+      (variant: Variant): SchemeFactory =>
+      (...args) =>
+        getSchemeFactory(variant)(...args);
+
+    registerVariant("cached", createScheme(Variant.VIBRANT));
+    const vibrant = createThemeController({ source: "#006494", variant: "cached" }).getState().theme;
+
+    registerVariant("cached", createScheme(Variant.NEUTRAL));
+    const neutral = createThemeController({ source: "#006494", variant: "cached" }).getState().theme;
+    expect(neutral).not.toBe(vibrant);
+    expect(neutral.schemes.light.variant).toBe(Variant.NEUTRAL);
+
+    unregisterVariant("cached");
+    createThemeController({ source: "#006494", variant: "cached" });
+    expect(consoleError).toHaveBeenCalledWith("Error generating material theme:", expect.any(Error));
+  });
+
+  it("switches to named and registered themes", () => {
+    const controller = createThemeController({
+      source: "#006494",
+      themes: { tenant: { sourceColor: "#ff0000", variant: Variant.VIBRANT } },
+    });
+
+    controller.setActiveTheme("tenant");
+    expect(controller.getState().theme.source).toBe(argbFromHex("#ff0000"));
+    expect(controller.getState().variant).toBe(Variant.VIBRANT);
+
+    controller.registerTheme("campaign", { sourceColor: "#0000ff" });
+    controller.setActiveTheme("campaign");
+    expect(controller.getState().theme.source).toBe(argbFromHex("#0000ff"));
+    expect(controller.getState().variant).toBe(Variant.FIDELITY);
+  });
+
+  it("reports unknown themes once", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const controller = createThemeController({ source: "#006494", activeTheme: "missing" });
+
+    controller.setOptions({ palettes: true });
+
+    expect(controller.getState().theme.source).toBe(argbFromHex("#006494"));
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalledWith('Unknown theme "missing"');
+  });
+
+  it.each(["constructor", "toString"])("does not resolve %s from the object prototype", (name) => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const controller = createThemeController({ source: "#006494", activeTheme: name });
+
+    expect(controller.getState().theme.source).toBe(argbFromHex("#006494"));
+    expect(consoleError).toHaveBeenCalledWith(`Unknown theme "${name}"`);
+  });
+
+  it("applies an imported theme with overrides", () => {
+    const imported = createMaterialTheme(argbFromHex("#b3261e"));
+    const controller = createThemeController({
+      importedTheme: {
+        sourceColor: "#b3261e",
+        seedColors: {},
+        customColors: [],
+        contrastLevel: 0,
+        theme: imported,
+        mismatches: [],
+      },
+      overrides: { primary: "#123456" },
+    });
+
+    expect(controller.getState().theme.source).toBe(imported.source);
+    expect(controller.getState().scheme.primary).toBe(argbFromHex("#123456"));
+  });
+});
+
+describe("createThemeController system preferences", () => {
+  const originalMatchMedia = window.matchMedia;
+  let listeners: Map<string, Set<ChangeListener>>;
+  let matching: Set<string>;
+
+  const setMatches = (query: string, value: boolean) => {
+    if (value) matching.add(query);
+    else matching.delete(query);
+    for (const listener of listeners.get(query) ?? []) {
+      listener({ matches: value } as MediaQueryListEvent);
+    }
+  };
+
+  beforeEach(() => {
+    listeners = new Map();
+    matching = new Set();
+    window.matchMedia = ((query: string) => ({
+      get matches() {
+        return matching.has(query);
+      },
+      media: query,
+      addEventListener: (_type: string, listener: ChangeListener) => {
+        listeners.set(query, (listeners.get(query) ?? new Set()).add(listener));
+      },
+      removeEventListener: (_type: string, listener: ChangeListener) => listeners.get(query)?.delete(listener),
+    })) as unknown as typeof window.matchMedia;
+  });
+
+  afterEach(() => {
+    window.matchMedia = originalMatchMedia;
+  });
+
+  const countListeners = () => [...listeners.values()].reduce((count, set) => count + set.size, 0);
+
+  it("follows prefers-color-scheme in system mode while subscribed", () => {
+    const controller = createThemeController({ mode: "system" });
+    const listener = jest.fn();
+    expect(controller.getState().resolvedMode).toBe("light");
+
+    const unsubscribe = controller.subscribe(listener);
+    setMatches("(prefers-color-scheme: dark)", true);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(controller.getState().resolvedMode).toBe("dark");
+    expect(controller.getState().scheme.isDark).toBe(true);
+
+    unsubscribe();
+    expect(countListeners()).toBe(0);
+  });
+
+  it("stops watching prefers-color-scheme when the mode is set", () => {
+    const controller = createThemeController({ mode: "system" });
+    controller.subscribe(() => {});
+    expect(countListeners()).toBe(1);
+
+    controller.setMode("dark");
+
+    expect(countListeners()).toBe(0);
+  });
+
+  it("switches to the system contrast level while more contrast is preferred", () => {
+    const controller = createThemeController({ systemContrast: "high" });
+    controller.subscribe(() => {});
+
+    setMatches("(prefers-contrast: more)", true);
+    expect(controller.getState().contrastLevel).toBe(ContrastLevel.HIGH);
+
+    setMatches("(prefers-contrast: more)", false);
+    expect(controller.getState().contrastLevel).toBe(ContrastLevel.STANDARD);
+  });
+
+  it("keeps a chosen contrast level above the system contrast level", () => {
+    matching.add("(prefers-contrast: more)");
+    const controller = createThemeController({ contrast: ContrastLevel.HIGH, systemContrast: "medium" });
+
+    expect(controller.getState().contrastLevel).toBe(ContrastLevel.HIGH);
+
+    controller.setContrastLevel(0.75);
+    expect(controller.getState().contrastLevel).toBe(0.75);
+
+    controller.setContrastLevel(ContrastLevel.STANDARD);
+    expect(controller.getState().contrastLevel).toBe(ContrastLevel.MEDIUM);
+  });
+
+  it("skips transitions while reduced motion is preferred", () => {
+    matching.add("(prefers-reduced-motion: reduce)");
+    const controller = createThemeController({ source: "#006494", transition: { duration: 300 } });
+    controller.apply();
+
+    controller.setSourceColor("#ff0000");
+    controller.apply();
+
+    expect(document.documentElement.style.getPropertyValue("--md-sys-color-primary")).toBe(
+      getThemeTokens(controller.getState().theme, false).get("--md-sys-color-primary"),
+    );
+  });
+});
+
+describe("createThemeController persistence", () => {
+  it("restores persisted choices over the initial values", () => {
+    const storage = createMemoryStorageAdapter();
+    storage.setItem("material-theme", serializeThemeState({ sourceColor: "#ff0000", mode: "dark" }));
+
+    const controller = createThemeController({ source: "#006494", persistence: { storage } });
+
+    expect(controller.getState().sourceColor).toBe("#ff0000");
+    expect(controller.getState().mode).toBe("dark");
+  });
+
+  it("only saves choices made through the setters", () => {
+    const storage = createMemoryStorageAdapter();
+    const controller = createThemeController({ source: "#006494", persistence: { storage, key: "theme" } });
+    controller.subscribe(() => {});
+    expect(storage.getItem("theme")).toBeNull();
+
+    controller.setVariant(Variant.VIBRANT);
+    expect(parseThemeState(storage.getItem("theme"))).toEqual({ variant: Variant.VIBRANT });
+
+    controller.setMode("dark");
+    expect(parseThemeState(storage.getItem("theme"))).toEqual({ variant: Variant.VIBRANT, mode: "dark" });
+  });
+
+  it("does not save invalid source colors", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const storage = createMemoryStorageAdapter();
+    const controller = createThemeController({ persistence: { storage } });
+
+    controller.setMode("dark");
+    controller.setSourceColor("not-a-color");
+
+    expect(parseThemeState(storage.getItem("material-theme"))).toEqual({ mode: "dark" });
+
+    consoleError.mockRestore();
+  });
+
+  it("keeps following initial values that were never chosen", () => {
+    const storage = createMemoryStorageAdapter();
+    createThemeController({ source: "#006494", persistence: { storage } }).setMode("dark");
+
+    const controller = createThemeController({ source: "#b3261e", persistence: { storage } });
+    controller.subscribe(() => {});
+
+    expect(controller.getState().sourceColor).toBe("#b3261e");
+    expect(controller.getState().mode).toBe("dark");
+  });
+
+  it("syncs controllers sharing a storage", () => {
+    const storage = createMemoryStorageAdapter();
+    const first = createThemeController({ persistence: { storage } });
+    const second = createThemeController({ persistence: { storage } });
+    first.subscribe(() => {});
+    second.subscribe(() => {});
+
+    first.setSourceColor("#0000ff");
+
+    expect(second.getState().sourceColor).toBe("#0000ff");
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it, afterEach, beforeEach, jest } from "@jest/globals";
+import { argbFromHex, Hct } from "@material/material-color-utilities";
+import { formatColor } from "../color-formats";
+import type { ColorFormat } from "../types";
+import { animateTokens, cubicBezier, interpolateColor, interpolateTokens, STANDARD_EASING } from "../theme-transition";
+
+describe("cubicBezier", () => {
+  it("maps the endpoints to themselves", () => {
+    const easing = cubicBezier(0.4, 0, 0.2, 1);
+
+    expect(easing(0)).toBe(0);
+    expect(easing(1)).toBe(1);
+  });
+
+  it("matches a linear curve", () => {
+    const linear = cubicBezier(0, 0, 1, 1);
+
+    expect(linear(0.25)).toBeCloseTo(0.25, 4);
+    expect(linear(0.5)).toBeCloseTo(0.5, 4);
+  });
+
+  it("decelerates with the standard easing", () => {
+    expect(STANDARD_EASING(0.5)).toBeGreaterThan(0.5);
+  });
+});
+
+describe("interpolateColor", () => {
+  const red = argbFromHex("#ff0000");
+  const blue = argbFromHex("#0000ff");
+
+  it("returns the endpoints at 0 and 1", () => {
+    expect(interpolateColor(red, blue, 0)).toBe(red);
+    expect(interpolateColor(red, blue, 1)).toBe(blue);
+  });
+
+  it("interpolates tone and takes the shortest hue path", () => {
+    const from = Hct.from(350, 40, 30).toInt();
+    const to = Hct.from(30, 40, 70).toInt();
+
+    const middle = Hct.fromInt(interpolateColor(from, to, 0.5));
+
+    expect(middle.tone).toBeCloseTo(50, 0);
+    expect(middle.hue > 340 || middle.hue < 40).toBe(true);
+  });
+});
+
+describe("interpolateTokens", () => {
+  it("interpolates shared colors and sets new tokens to their target", () => {
+    const from = new Map([["--a", "#000000"]]);
+    const to = new Map([
+      ["--a", "#ffffff"],
+      ["--b", "#ff0000"],
+    ]);
+
+    const tokens = interpolateTokens(from, to, 0.5);
+
+    expect(tokens.get("--a")).not.toBe("#000000");
+    expect(tokens.get("--a")).not.toBe("#ffffff");
+    expect(tokens.get("--b")).toBe("#ff0000");
+  });
+
+  it.each<ColorFormat>(["rgb-channels", "rgb", "hsl", "oklch"])("interpolates %s colors", (format) => {
+    const black = argbFromHex("#000000");
+    const white = argbFromHex("#ffffff");
+    const tokens = interpolateTokens(
+      new Map([["--a", formatColor(black, format)]]),
+      new Map([["--a", formatColor(white, format)]]),
+      0.5,
+    );
+
+    expect(tokens.get("--a")).toBe(formatColor(interpolateColor(black, white, 0.5), format));
+  });
+
+  it("sets tokens that are not colors or change format to their target", () => {
+    const tokens = interpolateTokens(
+      new Map([
+        ["--weight", "400"],
+        ["--color", "#000000"],
+      ]),
+      new Map([
+        ["--weight", "700"],
+        ["--color", "rgb(255 255 255)"],
+      ]),
+      0.5,
+    );
+
+    expect(tokens.get("--weight")).toBe("700");
+    expect(tokens.get("--color")).toBe("rgb(255 255 255)");
+  });
+});
+
+describe("animateTokens", () => {
+  const from = new Map([["--md-sys-color-primary", "#000000"]]);
+  const to = new Map([["--md-sys-color-primary", "#ffffff"]]);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("writes frames until the target is reached", () => {
+    const frames: string[] = [];
+    animateTokens(from, to, { duration: 200 }, (tokens) => frames.push(tokens.get("--md-sys-color-primary") as string));
+
+    expect(frames).toEqual(["#000000"]);
+
+    jest.advanceTimersByTime(100);
+    const middle = frames[frames.length - 1];
+    expect(middle).not.toBe("#000000");
+    expect(middle).not.toBe("#ffffff");
+
+    jest.advanceTimersByTime(200);
+    expect(frames[frames.length - 1]).toBe("#ffffff");
+
+    const count = frames.length;
+    jest.advanceTimersByTime(200);
+    expect(frames.length).toBe(count);
+  });
+
+  it("stops writing frames when cancelled", () => {
+    const onFrame = jest.fn();
+    const cancel = animateTokens(from, to, { duration: 200 }, onFrame);
+
+    jest.advanceTimersByTime(50);
+    const count = onFrame.mock.calls.length;
+    cancel();
+    jest.advanceTimersByTime(500);
+
+    expect(onFrame.mock.calls.length).toBe(count);
+  });
+
+  it("falls back to timers without animation frames", () => {
+    const { requestAnimationFrame, cancelAnimationFrame } = globalThis;
+    Object.assign(globalThis, { requestAnimationFrame: undefined, cancelAnimationFrame: undefined });
+    try {
+      const frames: string[] = [];
+      const cancel = animateTokens(from, to, { duration: 200 }, (tokens) =>
+        frames.push(tokens.get("--md-sys-color-primary") as string),
+      );
+
+      jest.advanceTimersByTime(100);
+      expect(frames.length).toBeGreaterThan(1);
+
+      const count = frames.length;
+      cancel();
+      jest.advanceTimersByTime(500);
+      expect(frames.length).toBe(count);
+    } finally {
+      Object.assign(globalThis, { requestAnimationFrame, cancelAnimationFrame });
+    }
+  });
+
+  it("applies the easing function", () => {
+    const frames: Array<Map<string, string>> = [];
+    animateTokens(from, to, { duration: 100, easing: () => 0 }, (tokens) => frames.push(tokens));
+
+    jest.advanceTimersByTime(50);
+
+    expect(frames[frames.length - 1].get("--md-sys-color-primary")).toBe("#000000");
+  });
+
+  it("writes the target immediately without a duration", () => {
+    const onFrame = jest.fn();
+    animateTokens(from, to, { duration: 0 }, onFrame);
+
+    expect(onFrame).toHaveBeenCalledWith(to);
+  });
+});
@@ -1,6 +1,17 @@
-import { createMaterialTheme, getThemeTokens } from "../theme-utils";
-import { Variant } from "../types";
-import { argbFromHex } from "@material/material-color-utilities";
+import {
+  createMaterialTheme,
+  customColorsFromHex,
+  getPaletteTone,
+  getThemeTokens,
+  overrideSchemeColors,
+  renderThemeCss,
+  seedColorsFromHex,
+  STANDARD_TONES,
+} from "../theme-utils";
+import { formatColor } from "../color-formats";
+import { ContrastLevel, Variant } from "../types";
+import { jest } from "@jest/globals";
+import { argbFromHex, hexFromArgb, TonalPalette } from "@material/material-color-utilities";
 
 describe("createMaterialTheme", () => {
   it("creates a theme with default variant", () => {
@@ -51,4 +62,273 @@ describe("getThemeTokens", () => {
     expect(tokens.get("--md-sys-color-on-primary")).toBeDefined();
     expect(tokens.get("--md-sys-color-background")).toBeDefined();
   });
+
+  it("generates custom color tokens for light and dark schemes", () => {
+    const sourceColor = argbFromHex("#006494");
+    const customColors = [{ name: "brandAccent", value: argbFromHex("#ff0000"), blend: true }];
+    const theme = createMaterialTheme(sourceColor, Variant.TONAL_SPOT, 0, customColors);
+    const group = theme.customColors[0];
+
+    const light = getThemeTokens(theme, false);
+    expect(light.get("--md-custom-color-brand-accent")).toBe(hexFromArgb(group.light.color));
+    expect(light.get("--md-custom-color-on-brand-accent")).toBe(hexFromArgb(group.light.onColor));
+    expect(light.get("--md-custom-color-brand-accent-container")).toBe(hexFromArgb(group.light.colorContainer));
+    expect(light.get("--md-custom-color-on-brand-accent-container")).toBe(hexFromArgb(group.light.onColorContainer));
+
+    const dark = getThemeTokens(theme, true);
+    expect(dark.get("--md-custom-color-brand-accent")).toBe(hexFromArgb(group.dark.color));
+    expect(dark.get("--md-custom-color-on-brand-accent-container")).toBe(hexFromArgb(group.dark.onColorContainer));
+  });
+});
+
+describe("getThemeTokens palettes", () => {
+  const theme = createMaterialTheme(argbFromHex("#006494"));
+  const paletteNames = ["primary", "secondary", "tertiary", "neutral", "neutral-variant", "error"];
+
+  it("omits palette tokens by default", () => {
+    const tokens = getThemeTokens(theme, false);
+
+    expect(Array.from(tokens.keys()).some((key) => key.startsWith("--md-ref-palette-"))).toBe(false);
+  });
+
+  it("outputs every palette at the standard tones", () => {
+    const tokens = getThemeTokens(theme, false, { palettes: true });
+
+    for (const name of paletteNames) {
+      for (const tone of STANDARD_TONES) {
+        expect(tokens.get(`--md-ref-palette-${name}${tone}`)).toMatch(/^#[0-9a-f]{6}$/);
+      }
+    }
+    expect(tokens.get("--md-ref-palette-primary40")).toBe(hexFromArgb(theme.schemes.light.primaryPalette.tone(40)));
+    expect(tokens.get("--md-ref-palette-neutral-variant90")).toBe(getPaletteTone(theme, "neutralVariant", 90));
+    expect(tokens.get("--md-ref-palette-primary0")).toBe("#000000");
+    expect(tokens.get("--md-ref-palette-primary100")).toBe("#ffffff");
+  });
+
+  it("outputs a configurable tone list", () => {
+    const tokens = getThemeTokens(theme, true, { palettes: [25, 98] });
+
+    expect(tokens.get("--md-ref-palette-error25")).toBe(getPaletteTone(theme, "error", 25));
+    expect(tokens.get("--md-ref-palette-neutral98")).toBeDefined();
+    expect(tokens.get("--md-ref-palette-primary40")).toBeUndefined();
+  });
+
+  it("includes palettes in rendered CSS", () => {
+    expect(renderThemeCss(theme, { palettes: [50] })).toContain("--md-ref-palette-tertiary50:");
+  });
+});
+
+describe("getThemeTokens overrides and transform", () => {
+  const theme = createMaterialTheme(argbFromHex("#6D509F"));
+
+  it("uses a custom role prefix", () => {
+    const tokens = getThemeTokens(theme, false, { prefix: "--brand-" });
+
+    expect(tokens.get("--brand-primary")).toBe(hexFromArgb(theme.schemes.light.primary));
+    expect(tokens.has("--md-sys-color-primary")).toBe(false);
+  });
+
+  it("pins roles to override colors", () => {
+    const tokens = getThemeTokens(theme, true, { overrides: { primary: "#0057b8" } });
+
+    expect(tokens.get("--md-sys-color-primary")).toBe("#0057b8");
+    expect(tokens.get("--md-sys-color-on-primary")).toBe(hexFromArgb(theme.schemes.dark.onPrimary));
+  });
+
+  it("passes the tokens and overridden scheme to the transform", () => {
+    const tokens = getThemeTokens(theme, false, {
+      overrides: { surfaceTint: "#ff0000" },
+      transform: (values, scheme) => {
+        values.set("--app-tint", hexFromArgb(scheme.surfaceTint));
+        return values;
+      },
+    });
+
+    expect(tokens.get("--app-tint")).toBe("#ff0000");
+  });
+});
+
+describe("getThemeTokens color formats", () => {
+  const theme = createMaterialTheme(argbFromHex("#6D509F"), Variant.TONAL_SPOT, 0, [
+    { name: "brand", value: argbFromHex("#ff5722"), blend: true },
+  ]);
+
+  it("outputs every color in each format", () => {
+    const tokens = getThemeTokens(theme, false, { formats: ["hex", "rgb-channels", "oklch"], palettes: [40] });
+    const primary = theme.schemes.light.primary;
+
+    expect(tokens.get("--md-sys-color-primary")).toBe(hexFromArgb(primary));
+    expect(tokens.get("--md-sys-color-primary-rgb")).toBe(formatColor(primary, "rgb-channels"));
+    expect(tokens.get("--md-sys-color-primary-oklch")).toBe(formatColor(primary, "oklch"));
+    expect(tokens.get("--md-custom-color-brand-rgb")).toBeDefined();
+    expect(tokens.get("--md-ref-palette-primary40-rgb")).toBeDefined();
+  });
+
+  it("writes plain hex tokens when RGB channels are the only format", () => {
+    const tokens = getThemeTokens(theme, false, { formats: ["rgb-channels"] });
+    const primary = theme.schemes.light.primary;
+
+    expect(tokens.get("--md-sys-color-primary")).toBe(hexFromArgb(primary));
+    expect(tokens.get("--md-sys-color-primary-rgb")).toBe(formatColor(primary, "rgb-channels"));
+  });
+
+  it("writes plain tokens in the first color format", () => {
+    const tokens = getThemeTokens(theme, true, { formats: ["hsl"] });
+
+    expect(tokens.get("--md-sys-color-primary")).toBe(formatColor(theme.schemes.dark.primary, "hsl"));
+    expect(renderThemeCss(theme, { formats: ["hsl"], mode: "dark" })).toContain("--md-sys-color-primary: hsl(");
+  });
+});
+
+describe("overrideSchemeColors", () => {
+  const theme = createMaterialTheme(argbFromHex("#6D509F"));
+
+  it("replaces roles without changing the original scheme", () => {
+    const original = theme.schemes.light.primary;
+    const scheme = overrideSchemeColors(theme.schemes.light, { primary: "#0057b8" });
+
+    expect(scheme.primary).toBe(argbFromHex("#0057b8"));
+    expect(scheme.secondary).toBe(theme.schemes.light.secondary);
+    expect(scheme.variant).toBe(Variant.TONAL_SPOT);
+    expect(theme.schemes.light.primary).toBe(original);
+  });
+
+  it("reports and skips invalid colors", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const scheme = overrideSchemeColors(theme.schemes.light, { primary: "blue" });
+
+    expect(scheme.primary).toBe(theme.schemes.light.primary);
+    expect(consoleError).toHaveBeenCalledTimes(1);
+
+    consoleError.mockRestore();
+  });
+});
+
+describe("getThemeTokens contrast levels", () => {
+  const sourceColor = argbFromHex("#006494");
+  const levels = [ContrastLevel.REDUCED, ContrastLevel.STANDARD, ContrastLevel.MEDIUM, ContrastLevel.HIGH];
+
+  it.each([false, true])("generates distinct role values for each level (dark: %s)", (isDark) => {
+    const values = levels.map((level) =>
+      getThemeTokens(createMaterialTheme(sourceColor, Variant.TONAL_SPOT, level), isDark).get(
+        "--md-sys-color-primary-container",
+      ),
+    );
+
+    expect(new Set(values).size).toBe(levels.length);
+  });
+
+  it("records the contrast level on the generated schemes", () => {
+    const theme = createMaterialTheme(sourceColor, Variant.TONAL_SPOT, ContrastLevel.HIGH);
+
+    expect(theme.schemes.light.contrastLevel).toBe(1.0);
+    expect(theme.schemes.dark.contrastLevel).toBe(1.0);
+  });
+});
+
+describe("createMaterialTheme seed colors", () => {
+  const sourceColor = argbFromHex("#6D509F");
+  const seedColors = {
+    primary: argbFromHex("#1E88E5"),
+    secondary: argbFromHex("#00897B"),
+    tertiary: argbFromHex("#F4511E"),
+    neutral: argbFromHex("#8D6E63"),
+    neutralVariant: argbFromHex("#546E7A"),
+    error: argbFromHex("#C2185B"),
+  };
+
+  it("takes role colors from the seeded palettes", () => {
+    const theme = createMaterialTheme(sourceColor, Variant.TONAL_SPOT, ContrastLevel.STANDARD, [], seedColors);
+    const { light, dark } = theme.schemes;
+
+    expect(light.primary).toBe(TonalPalette.fromInt(seedColors.primary).tone(40));
+    expect(light.secondary).toBe(TonalPalette.fromInt(seedColors.secondary).tone(40));
+    expect(dark.tertiaryContainer).toBe(TonalPalette.fromInt(seedColors.tertiary).tone(30));
+    expect(light.surface).toBe(TonalPalette.fromInt(seedColors.neutral).tone(98));
+    expect(light.outline).toBe(TonalPalette.fromInt(seedColors.neutralVariant).tone(50));
+    expect(dark.error).toBe(TonalPalette.fromInt(seedColors.error).tone(80));
+  });
+
+  it("keeps the variant, contrast level and primary palette", () => {
+    const plain = createMaterialTheme(sourceColor, Variant.VIBRANT, ContrastLevel.HIGH);
+    const seeded = createMaterialTheme(sourceColor, Variant.VIBRANT, ContrastLevel.HIGH, [], {
+      secondary: seedColors.secondary,
+    });
+
+    expect(seeded.schemes.dark.variant).toBe(Variant.VIBRANT);
+    expect(seeded.schemes.dark.contrastLevel).toBe(ContrastLevel.HIGH);
+    expect(seeded.schemes.dark.isDark).toBe(true);
+    expect(seeded.schemes.light.primary).toBe(plain.schemes.light.primary);
+    expect(seeded.schemes.light.tertiary).toBe(plain.schemes.light.tertiary);
+    expect(seeded.schemes.light.secondary).not.toBe(plain.schemes.light.secondary);
+  });
+});
+
+describe("seedColorsFromHex", () => {
+  it("converts hex values to ARGB and reports invalid ones", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const colors = seedColorsFromHex({ secondary: "#00897b", error: "crimson" });
+
+    expect(colors).toEqual({ secondary: argbFromHex("#00897b") });
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(consoleError.mock.calls[0][0]).toContain("error");
+
+    consoleError.mockRestore();
+  });
+});
+
+describe("customColorsFromHex", () => {
+  it("converts hex values to ARGB", () => {
+    const colors = customColorsFromHex([{ name: "brand", value: "#ff0000", blend: false }]);
+
+    expect(colors).toEqual([{ name: "brand", value: argbFromHex("#ff0000"), blend: false }]);
+  });
+
+  it("reports and skips invalid hex values", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const colors = customColorsFromHex([
+      { name: "broken", value: "#zzzzzz", blend: true },
+      { name: "brand", value: "#00ff00", blend: true },
+    ]);
+
+    expect(colors.map((c) => c.name)).toEqual(["brand"]);
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(consoleError.mock.calls[0][0]).toContain("broken");
+
+    consoleError.mockRestore();
+  });
+});
+
+describe("renderThemeCss", () => {
+  const theme = createMaterialTheme(argbFromHex("#006494"));
+  const lightPrimary = getThemeTokens(theme, false).get("--md-sys-color-primary");
+  const darkPrimary = getThemeTokens(theme, true).get("--md-sys-color-primary");
+
+  it("renders light rules on :root and dark rules in a media query", () => {
+    const css = renderThemeCss(theme);
+
+    expect(css.startsWith(":root {")).toBe(true);
+    expect(css).toContain(`--md-sys-color-primary: ${lightPrimary};`);
+    expect(css).toContain("@media (prefers-color-scheme: dark) {");
+    expect(css.split("@media")[1]).toContain(`--md-sys-color-primary: ${darkPrimary};`);
+  });
+
+  it("renders dark rules under a data-theme attribute", () => {
+    const css = renderThemeCss(theme, { darkStrategy: "attribute" });
+
+    expect(css).not.toContain("@media");
+    expect(css.split(':root[data-theme="dark"] {')[1]).toContain(`--md-sys-color-primary: ${darkPrimary};`);
+  });
+
+  it("renders a single scheme for a fixed mode and custom selector", () => {
+    const css = renderThemeCss(theme, { selector: ".preview", mode: "dark" });
+
+    expect(css.startsWith(".preview {")).toBe(true);
+    expect(css).toContain(`--md-sys-color-primary: ${darkPrimary};`);
+    expect(css).not.toContain(`--md-sys-color-primary: ${lightPrimary};`);
+    expect(css).not.toContain("@media");
+  });
 });
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "@jest/globals";
+import { argbFromHex } from "@material/material-color-utilities";
+import { createMaterialTheme, getThemeTokens } from "../theme-utils";
+import {
+  exportDesignTokens,
+  exportScssMaps,
+  exportScssVariables,
+  exportTailwindColors,
+  exportThemeObject,
+} from "../token-exporters";
+import { COLOR_ROLES, Variant } from "../types";
+
+const theme = createMaterialTheme(argbFromHex("#6D509F"), Variant.TONAL_SPOT, 0.0, [
+  { name: "brandAccent", value: argbFromHex("#ff5722"), blend: true },
+]);
+
+describe("exportThemeObject", () => {
+  it("exports light and dark schemes with camelCase names", () => {
+    const exported = exportThemeObject(theme);
+
+    expect(Object.keys(exported.light.colors)).toEqual([...COLOR_ROLES]);
+    expect(exported.light.colors.primaryContainer).toBe(
+      getThemeTokens(theme, false).get("--md-sys-color-primary-container"),
+    );
+    expect(exported.dark.customColors.brandAccent.onColorContainer).toBe(
+      getThemeTokens(theme, true).get("--md-custom-color-on-brand-accent-container"),
+    );
+    expect(exported).toMatchSnapshot();
+  });
+});
+
+describe("exportDesignTokens", () => {
+  it("exports W3C design tokens", () => {
+    const tokens = JSON.parse(exportDesignTokens(theme));
+
+    expect(tokens.color.$type).toBe("color");
+    expect(tokens.color.dark["on-primary"].$value).toBe(getThemeTokens(theme, true).get("--md-sys-color-on-primary"));
+    expect(tokens.color.light.custom["brand-accent"].$value).toBe(
+      getThemeTokens(theme, false).get("--md-custom-color-brand-accent"),
+    );
+    expect(exportDesignTokens(theme)).toMatchSnapshot();
+  });
+});
+
+describe("exportTailwindColors", () => {
+  it("exports CSS variable references and static scheme values", () => {
+    const colors = exportTailwindColors(theme);
+
+    expect(colors["surface-container-high"]).toBe("var(--md-sys-color-surface-container-high)");
+    expect(colors["on-brand-accent"]).toBe("var(--md-custom-color-on-brand-accent)");
+    expect(colors).toMatchSnapshot();
+  });
+});
+
+describe("exportScssVariables", () => {
+  it("exports one variable per role and scheme", () => {
+    const scss = exportScssVariables(theme);
+
+    expect(scss).toContain(
+      `$md-sys-color-primary-light: ${getThemeTokens(theme, false).get("--md-sys-color-primary")};`,
+    );
+    expect(scss).toMatchSnapshot();
+  });
+});
+
+describe("exportScssMaps", () => {
+  it("exports one map per scheme", () => {
+    const scss = exportScssMaps(theme);
+
+    expect(scss).toContain("$md-sys-color-dark: (");
+    expect(scss).toContain("$md-custom-color-light: (");
+    expect(scss).toMatchSnapshot();
+  });
+
+  it("omits custom color maps without custom colors", () => {
+    expect(exportScssMaps(createMaterialTheme(argbFromHex("#6D509F")))).not.toContain("md-custom-color");
+  });
+});
+
+describe("custom color token names", () => {
+  it("match getThemeTokens for names with digits and underscores", () => {
+    const numbered = createMaterialTheme(argbFromHex("#6D509F"), Variant.TONAL_SPOT, 0.0, [
+      { name: "brand_2", value: argbFromHex("#ff5722"), blend: true },
+    ]);
+    const tokens = getThemeTokens(numbered, false);
+    const color = tokens.get("--md-custom-color-brand-2");
+
+    expect(color).toBeDefined();
+    expect(exportTailwindColors(numbered)["on-brand-2-container"]).toBe("var(--md-custom-color-on-brand-2-container)");
+    expect(tokens.has("--md-custom-color-on-brand-2-container")).toBe(true);
+    expect(exportScssVariables(numbered)).toContain(`$md-custom-color-brand-2-light: ${color};`);
+    expect(exportScssMaps(numbered)).toContain(`"brand-2": ${color},`);
+    expect(JSON.parse(exportDesignTokens(numbered)).color.light.custom["brand-2"].$value).toBe(color);
+  });
+});
@@ -1,4 +1,4 @@
-import { Variant } from "../types";
+import { ContrastLevel, Variant } from "../types";
 
 describe("Variant enum", () => {
   it("contains all expected variants", () => {
@@ -34,3 +34,12 @@ describe("Variant enum", () => {
     expect(Variant.FRUIT_SALAD).toBe(8);
   });
 });
+
+describe("ContrastLevel enum", () => {
+  it("has the standard Material Design 3 levels", () => {
+    expect(ContrastLevel.REDUCED).toBe(-1.0);
+    expect(ContrastLevel.STANDARD).toBe(0.0);
+    expect(ContrastLevel.MEDIUM).toBe(0.5);
+    expect(ContrastLevel.HIGH).toBe(1.0);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it, afterEach } from "@jest/globals";
+import React from "react";
+import { render, act, cleanup } from "@testing-library/react";
+import { argbFromHex } from "@material/material-color-utilities";
+import { MaterialThemeProvider, useMaterialTheme } from "../material-theme-provider";
+import { useColorRoles, useHarmonizedColor } from "../use-color-roles";
+import { getColorRoles, harmonizeColor } from "../harmonize";
+import type { ColorRoles, MaterialThemeContextType } from "../types";
+
+describe("useHarmonizedColor", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("harmonizes with the current source color and follows source changes", () => {
+    const renders: string[] = [];
+    let context: MaterialThemeContextType | undefined;
+    const HarmonizedComponent = () => {
+      context = useMaterialTheme();
+      renders.push(useHarmonizedColor("#FF0000"));
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <HarmonizedComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(renders[renders.length - 1]).toBe(harmonizeColor("#FF0000", argbFromHex("#006494")));
+    expect(context?.harmonize("#FF0000")).toBe(renders[renders.length - 1]);
+
+    act(() => {
+      context?.setSourceColor("#00FF00");
+    });
+
+    expect(renders[renders.length - 1]).toBe(harmonizeColor("#FF0000", argbFromHex("#00FF00")));
+    expect(context?.harmonize("#FF0000")).toBe(renders[renders.length - 1]);
+  });
+});
+
+describe("useColorRoles", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("returns the roles in the resolved color mode", () => {
+    const renders: ColorRoles[] = [];
+    let context: MaterialThemeContextType | undefined;
+    const RolesComponent = () => {
+      context = useMaterialTheme();
+      renders.push(useColorRoles("#2E7D32"));
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" mode="light">
+        <RolesComponent />
+      </MaterialThemeProvider>,
+    );
+
+    const source = argbFromHex("#006494");
+    expect(renders[renders.length - 1]).toEqual(getColorRoles("#2E7D32", source, false));
+
+    act(() => {
+      context?.setMode("dark");
+    });
+
+    expect(renders[renders.length - 1]).toEqual(getColorRoles("#2E7D32", source, true));
+  });
+
+  it("keeps the same object while the inputs do not change", () => {
+    const renders: ColorRoles[] = [];
+    let context: MaterialThemeContextType | undefined;
+    const RolesComponent = () => {
+      context = useMaterialTheme();
+      renders.push(useColorRoles("#2E7D32", false));
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <RolesComponent />
+      </MaterialThemeProvider>,
+    );
+    const first = renders[renders.length - 1];
+
+    act(() => {
+      context?.setContrastLevel(0.5);
+    });
+
+    expect(renders.length).toBeGreaterThan(1);
+    expect(renders[renders.length - 1]).toBe(first);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, afterEach } from "@jest/globals";
+import React from "react";
+import { render, screen, act, cleanup } from "@testing-library/react";
+import { useMediaQuery } from "../use-media-query";
+
+type ChangeListener = (event: MediaQueryListEvent) => void;
+
+// Minimal matchMedia mock whose match state can be toggled from tests
+const mockMatchMedia = (initialMatches: boolean) => {
+  const listeners = new Set<ChangeListener>();
+  let matches = initialMatches;
+
+  window.matchMedia = ((query: string) => ({
+    get matches() {
+      return matches;
+    },
+    media: query,
+    addEventListener: (_type: string, listener: ChangeListener) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: ChangeListener) => listeners.delete(listener),
+  })) as unknown as typeof window.matchMedia;
+
+  return {
+    listeners,
+    setMatches: (value: boolean) => {
+      matches = value;
+      for (const listener of listeners) {
+        listener({ matches: value } as MediaQueryListEvent);
+      }
+    },
+  };
+};
+
+const TestComponent = ({ enabled = true }: { enabled?: boolean }) => {
+  const matches = useMediaQuery("(prefers-color-scheme: dark)", enabled);
+  return <div data-testid="matches">{String(matches)}</div>;
+};
+
+describe("useMediaQuery", () => {
+  const originalMatchMedia = window.matchMedia;
+
+  afterEach(() => {
+    cleanup();
+    window.matchMedia = originalMatchMedia;
+  });
+
+  it("returns false when matchMedia is unavailable", () => {
+    // @ts-expect-error jsdom does not implement matchMedia
+    window.matchMedia = undefined;
+
+    render(<TestComponent />);
+
+    expect(screen.getByTestId("matches").textContent).toBe("false");
+  });
+
+  it("tracks media query changes", () => {
+    const media = mockMatchMedia(true);
+
+    render(<TestComponent />);
+    expect(screen.getByTestId("matches").textContent).toBe("true");
+
+    act(() => media.setMatches(false));
+    expect(screen.getByTestId("matches").textContent).toBe("false");
+  });
+
+  it("does not subscribe when disabled", () => {
+    const media = mockMatchMedia(true);
+
+    render(<TestComponent enabled={false} />);
+
+    expect(screen.getByTestId("matches").textContent).toBe("false");
+    expect(media.listeners.size).toBe(0);
+  });
+
+  it("removes its listener on unmount", () => {
+    const media = mockMatchMedia(false);
+
+    const { unmount } = render(<TestComponent />);
+    expect(media.listeners.size).toBe(1);
+
+    unmount();
+    expect(media.listeners.size).toBe(0);
+  });
+});
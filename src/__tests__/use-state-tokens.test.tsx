@@ -0,0 +1,64 @@
+import { describe, expect, it, afterEach } from "@jest/globals";
+import React from "react";
+import { render, act, cleanup } from "@testing-library/react";
+import { MaterialThemeProvider, useMaterialTheme } from "../material-theme-provider";
+import { useStateTokens } from "../use-state-tokens";
+import { getStateTokens } from "../state-tokens";
+import type { MaterialThemeContextType, ThemeStateTokens } from "../types";
+
+describe("useStateTokens", () => {
+  let states: ThemeStateTokens | null = null;
+  let context: MaterialThemeContextType | undefined;
+
+  const StatesComponent = () => {
+    states = useStateTokens();
+    context = useMaterialTheme();
+    return null;
+  };
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("returns the state tokens of the current scheme", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <StatesComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(context?.currentScheme).not.toBeNull();
+    expect(states).toEqual(context?.currentScheme && getStateTokens(context.currentScheme));
+  });
+
+  it("follows the color mode", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <StatesComponent />
+      </MaterialThemeProvider>,
+    );
+    const lightSurface = states?.elevation[0];
+
+    act(() => {
+      context?.setMode("dark");
+    });
+
+    expect(states?.elevation[0]).not.toBe(lightSurface);
+    expect(states?.elevation[0]).toBe(
+      context?.materialTheme && getStateTokens(context.materialTheme.schemes.dark).elevation[0],
+    );
+  });
+
+  it("applies state and elevation tokens when enabled", () => {
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494" states elevation>
+        <StatesComponent />
+      </MaterialThemeProvider>,
+    );
+
+    const style = document.documentElement.style;
+    expect(style.getPropertyValue("--md-sys-state-pressed-state-layer-opacity")).toBe("0.1");
+    expect(style.getPropertyValue("--md-sys-state-primary-hover")).toBe(states?.colors.primary.hover);
+    expect(style.getPropertyValue("--md-sys-elevation-surface-level2")).toBe(states?.elevation[2]);
+  });
+});
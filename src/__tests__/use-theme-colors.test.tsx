@@ -0,0 +1,125 @@
+import { describe, expect, it, afterEach } from "@jest/globals";
+import React, { useState } from "react";
+import { render, act, cleanup } from "@testing-library/react";
+import { argbFromHex, hexFromArgb } from "@material/material-color-utilities";
+import { MaterialThemeProvider } from "../material-theme-provider";
+import { useCssVar, useThemeColor, useThemeColors } from "../use-theme-colors";
+import { createMaterialTheme } from "../theme-utils";
+import { type ColorRole, Variant } from "../types";
+
+const theme = createMaterialTheme(argbFromHex("#006494"), Variant.FIDELITY);
+
+describe("useThemeColors", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("returns every role from the first render on", () => {
+    const renders: Array<Record<ColorRole, string>> = [];
+    const ColorsComponent = () => {
+      renders.push(useThemeColors());
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <ColorsComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(renders[0].primary).toBe(hexFromArgb(theme.schemes.light.primary));
+    expect(renders[0].onSurfaceVariant).toBe(hexFromArgb(theme.schemes.light.onSurfaceVariant));
+  });
+
+  it("keeps the same object until the scheme changes", () => {
+    const renders: Array<Record<ColorRole, string>> = [];
+    let rerender: (() => void) | undefined;
+    let setDark: ((dark: boolean) => void) | undefined;
+
+    const ColorsComponent = () => {
+      const [, setCount] = useState(0);
+      rerender = () => setCount((count) => count + 1);
+      renders.push(useThemeColors());
+      return null;
+    };
+    const App = () => {
+      const [dark, setDarkState] = useState(false);
+      setDark = setDarkState;
+      return (
+        <MaterialThemeProvider defaultSourceColor="#006494" isDark={dark}>
+          <ColorsComponent />
+        </MaterialThemeProvider>
+      );
+    };
+
+    render(<App />);
+    act(() => rerender?.());
+    expect(renders[renders.length - 1]).toBe(renders[0]);
+
+    act(() => setDark?.(true));
+    expect(renders[renders.length - 1]).not.toBe(renders[0]);
+    expect(renders[renders.length - 1].primary).toBe(hexFromArgb(theme.schemes.dark.primary));
+  });
+
+  it("formats the values", () => {
+    let colors: Record<ColorRole, string> | undefined;
+    const ColorsComponent = () => {
+      colors = useThemeColors("rgb-channels");
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <ColorsComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(colors?.primary).toMatch(/^\d+ \d+ \d+$/);
+  });
+});
+
+describe("useThemeColor", () => {
+  it("returns a single role", () => {
+    let color: string | undefined;
+    let oklch: string | undefined;
+    const ColorComponent = () => {
+      color = useThemeColor("primaryContainer");
+      oklch = useThemeColor("primaryContainer", "oklch");
+      return null;
+    };
+
+    render(
+      <MaterialThemeProvider defaultSourceColor="#006494">
+        <ColorComponent />
+      </MaterialThemeProvider>,
+    );
+
+    expect(color).toBe(hexFromArgb(theme.schemes.light.primaryContainer));
+    expect(oklch).toMatch(/^oklch\(/);
+    cleanup();
+  });
+});
+
+describe("useCssVar", () => {
+  it("references the role token with the provider's prefix", () => {
+    const references: string[] = [];
+    const VarComponent = () => {
+      references.push(useCssVar("primaryContainer"));
+      return null;
+    };
+
+    render(
+      <>
+        <MaterialThemeProvider>
+          <VarComponent />
+        </MaterialThemeProvider>
+        <MaterialThemeProvider prefix="--brand-" scoped>
+          <VarComponent />
+        </MaterialThemeProvider>
+      </>,
+    );
+
+    expect(references).toEqual(["var(--md-sys-color-primary-container)", "var(--brand-primary-container)"]);
+    cleanup();
+  });
+});
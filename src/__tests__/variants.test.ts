@@ -0,0 +1,100 @@
+import { createMaterialTheme } from "../theme-utils";
+import { type SchemeFactory, Variant } from "../types";
+import {
+  getSchemeFactory,
+  getVariantRegistryVersion,
+  isKnownVariant,
+  registerVariant,
+  unregisterVariant,
+} from "../variants";
+import { afterEach } from "@jest/globals";
+import { argbFromHex, DynamicScheme, Hct, hexFromArgb, TonalPalette } from "@material/material-color-utilities";
+
+const source = argbFromHex("#6D509F");
+
+const createMutedScheme: SchemeFactory = (sourceColorHct, isDark, contrastLevel) =>
+  new DynamicScheme({
+    sourceColorArgb: sourceColorHct.toInt(),
+    variant: Variant.TONAL_SPOT,
+    contrastLevel,
+    isDark,
+    primaryPalette: TonalPalette.fromHueAndChroma(sourceColorHct.hue, 12),
+    secondaryPalette: TonalPalette.fromHueAndChroma(sourceColorHct.hue, 8),
+    tertiaryPalette: TonalPalette.fromHueAndChroma(sourceColorHct.hue + 60, 12),
+    neutralPalette: TonalPalette.fromHueAndChroma(sourceColorHct.hue, 2),
+    neutralVariantPalette: TonalPalette.fromHueAndChroma(sourceColorHct.hue, 4),
+  });
+
+afterEach(() => {
+  unregisterVariant("muted");
+});
+
+describe("built-in variants", () => {
+  const variants = Object.values(Variant).filter((value): value is Variant => typeof value === "number");
+
+  it.each(variants)("creates schemes reporting variant %d", (variant) => {
+    const theme = createMaterialTheme(source, variant);
+
+    expect(theme.schemes.light.variant).toBe(variant);
+    expect(theme.schemes.dark.variant).toBe(variant);
+    expect(theme.schemes.dark.isDark).toBe(true);
+  });
+
+  it("passes the contrast level to the scheme", () => {
+    const scheme = getSchemeFactory(Variant.CONTENT)(Hct.fromInt(source), false, 0.5);
+
+    expect(scheme.contrastLevel).toBe(0.5);
+    expect(scheme.isDark).toBe(false);
+  });
+});
+
+describe("custom variants", () => {
+  it("creates themes from registered factories", () => {
+    registerVariant("muted", createMutedScheme);
+    const theme = createMaterialTheme(source, "muted", 0.5);
+
+    expect(theme.variant).toBe("muted");
+    expect(theme.schemes.light.contrastLevel).toBe(0.5);
+    expect(theme.schemes.dark.isDark).toBe(true);
+    expect(hexFromArgb(theme.schemes.light.primary)).toBe(
+      hexFromArgb(createMutedScheme(Hct.fromInt(source), false, 0.5).primary),
+    );
+  });
+
+  it("tracks registration", () => {
+    expect(isKnownVariant("muted")).toBe(false);
+    registerVariant("muted", createMutedScheme);
+    expect(isKnownVariant("muted")).toBe(true);
+    expect(unregisterVariant("muted")).toBe(true);
+    expect(isKnownVariant("muted")).toBe(false);
+  });
+
+  it("changes the registry version when the registry changes", () => {
+    const initial = getVariantRegistryVersion();
+
+    registerVariant("muted", createMutedScheme);
+    const registered = getVariantRegistryVersion();
+    expect(registered).not.toBe(initial);
+
+    unregisterVariant("missing");
+    expect(getVariantRegistryVersion()).toBe(registered);
+
+    unregisterVariant("muted");
+    expect(getVariantRegistryVersion()).not.toBe(registered);
+  });
+});
+
+describe("unknown variants", () => {
+  it("throws for unregistered names", () => {
+    expect(() => createMaterialTheme(source, "muted")).toThrow(
+      'Unknown theme variant "muted". Register it with registerVariant() first.',
+    );
+  });
+
+  it("throws for values outside the Variant enum", () => {
+    expect(() => createMaterialTheme(source, 42 as Variant)).toThrow(
+      "Unknown theme variant 42. Expected a value of the Variant enum.",
+    );
+    expect(isKnownVariant(42)).toBe(false);
+  });
+});
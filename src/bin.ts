@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "node:fs";
+import { runCli } from "./cli";
+
+process.exitCode = runCli(process.argv.slice(2), {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readFile: (path) => readFileSync(path, "utf8"),
+  writeFile: (path, content) => writeFileSync(path, content, "utf8"),
+});
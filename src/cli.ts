@@ -0,0 +1,325 @@
+import { parseArgs } from "node:util";
+import { argbFromHex } from "@material/material-color-utilities";
+import { createMaterialTheme, isHexColor, renderThemeCss } from "./theme-utils";
+import { exportDesignTokens, exportScssVariables } from "./token-exporters";
+import { COLOR_FORMAT_SUFFIXES } from "./color-formats";
+import {
+  type ColorFormat,
+  ContrastLevel,
+  type ColorMode,
+  type HexCustomColor,
+  type MaterialTheme,
+  Variant,
+} from "./types";
+
+/**
+ * Exit codes of the command-line generator.
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  /** Invalid arguments or configuration. */
+  INVALID_INPUT: 1,
+  /** The config file could not be read or the output could not be written. */
+  IO_ERROR: 2,
+} as const;
+
+/**
+ * Output formats supported by the generator.
+ */
+const FORMATS = ["css", "json", "scss"] as const;
+
+type CliFormat = (typeof FORMATS)[number];
+
+const COLOR_FORMATS = Object.keys(COLOR_FORMAT_SUFFIXES) as ColorFormat[];
+
+/**
+ * File system and console access used by the generator, injected so it can be tested offline.
+ *
+ * @interface CliIO
+ * @property {(text: string) => void} stdout - Writes to standard output
+ * @property {(text: string) => void} stderr - Writes to standard error
+ * @property {(path: string) => string} readFile - Reads a UTF-8 file
+ * @property {(path: string, content: string) => void} writeFile - Writes a UTF-8 file
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readFile: (path: string) => string;
+  writeFile: (path: string, content: string) => void;
+}
+
+/**
+ * Generator options, from a JSON config file and command-line flags (flags take precedence).
+ *
+ * @interface GenerateConfig
+ */
+interface GenerateConfig {
+  source?: unknown;
+  variant?: unknown;
+  contrast?: unknown;
+  mode?: unknown;
+  format?: unknown;
+  colorFormat?: unknown;
+  out?: unknown;
+  customColors?: unknown;
+}
+
+const USAGE = `Usage: material-theme generate [options]
+
+Generates static Material Design 3 theme files.
+
+Options:
+  --source <hex>        Source color, e.g. "#6D509F" (required)
+  --variant <name>      Theme variant (default: tonal-spot): ${Object.keys(Variant)
+    .filter((key) => Number.isNaN(Number(key)))
+    .map((key) => key.toLowerCase().replace(/_/g, "-"))
+    .join(", ")}
+  --contrast <level>    Contrast level from -1.0 to 1.0 (default: 0)
+  --mode <mode>         CSS only: light, dark or system (default: system)
+  --format <format>     Output format: ${FORMATS.join(", ")} (default: css)
+  --color-format <list> CSS only: comma-separated color formats: ${COLOR_FORMATS.join(", ")} (default: hex)
+  --out <file>          Output file (default: standard output)
+  --config <file>       JSON config file with the options above and "customColors"
+  -h, --help            Show this help
+
+Exit codes: 0 success, 1 invalid input, 2 file error
+`;
+
+/**
+ * Error raised for invalid generator input.
+ */
+class CliInputError extends Error {}
+
+/**
+ * Parses a variant name such as "tonal-spot" or "TONAL_SPOT".
+ *
+ * @param {unknown} value - Variant name
+ * @returns {Variant} Theme variant
+ * @throws {CliInputError} When the variant is unknown
+ */
+const parseVariant = (value: unknown): Variant => {
+  const key = typeof value === "string" ? value.toUpperCase().replace(/-/g, "_") : "";
+  // The enum also maps numeric values back to names, which are not variant names
+  const variant: unknown = Variant[key as keyof typeof Variant];
+  if (typeof variant !== "number") {
+    throw new CliInputError(`Unknown variant "${String(value)}"`);
+  }
+  return variant as Variant;
+};
+
+/**
+ * Parses a contrast level from a flag or config value.
+ *
+ * @param {unknown} value - Contrast level
+ * @returns {number} Contrast level
+ * @throws {CliInputError} When the value is not a number from -1.0 to 1.0
+ */
+const parseContrast = (value: unknown): number => {
+  const level = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof level !== "number" || Number.isNaN(level) || level < -1 || level > 1) {
+    throw new CliInputError(`Contrast must be a number from -1.0 to 1.0, got "${String(value)}"`);
+  }
+  return level;
+};
+
+/**
+ * Parses color formats from a comma-separated flag or a config array.
+ *
+ * @param {unknown} value - Color formats
+ * @returns {ColorFormat[]} Color formats
+ * @throws {CliInputError} When a format is unknown
+ */
+const parseColorFormats = (value: unknown): ColorFormat[] => {
+  const formats = typeof value === "string" ? value.split(",").map((format) => format.trim()) : value;
+  if (!Array.isArray(formats) || formats.length === 0) {
+    throw new CliInputError('"colorFormat" must be a list of color formats');
+  }
+
+  for (const format of formats) {
+    if (!COLOR_FORMATS.includes(format)) {
+      throw new CliInputError(`Unknown color format "${String(format)}", expected one of: ${COLOR_FORMATS.join(", ")}`);
+    }
+  }
+  return formats;
+};
+
+/**
+ * Validates the custom colors of a config file.
+ *
+ * @param {unknown} value - Custom color definitions
+ * @returns {HexCustomColor[]} Validated custom colors
+ * @throws {CliInputError} When a definition is malformed
+ */
+const parseCustomColors = (value: unknown): HexCustomColor[] => {
+  if (!Array.isArray(value)) {
+    throw new CliInputError('"customColors" must be an array');
+  }
+
+  return value.map((color, index) => {
+    const { name, value: hex, blend = true } = (color ?? {}) as Record<string, unknown>;
+    if (typeof name !== "string" || name.trim() === "") {
+      throw new CliInputError(`customColors[${index}] needs a "name"`);
+    }
+    if (typeof hex !== "string" || !isHexColor(hex)) {
+      throw new CliInputError(`customColors[${index}] ("${name}") has an invalid hex value "${String(hex)}"`);
+    }
+    if (typeof blend !== "boolean") {
+      throw new CliInputError(`customColors[${index}] ("${name}") has a non-boolean "blend"`);
+    }
+    return { name, value: hex, blend };
+  });
+};
+
+/**
+ * Generates the theme file contents for a validated config.
+ *
+ * @param {GenerateConfig} config - Generator options
+ * @returns {{ content: string, out: string | undefined }} File contents and output path
+ * @throws {CliInputError} When an option is invalid
+ */
+const generate = (config: GenerateConfig): { content: string; out: string | undefined } => {
+  if (typeof config.source !== "string" || !isHexColor(config.source)) {
+    throw new CliInputError(
+      config.source === undefined ? "Missing --source" : `Invalid source color "${String(config.source)}"`,
+    );
+  }
+
+  const variant = config.variant === undefined ? Variant.TONAL_SPOT : parseVariant(config.variant);
+  const contrast = config.contrast === undefined ? ContrastLevel.STANDARD : parseContrast(config.contrast);
+  const customColors = config.customColors === undefined ? [] : parseCustomColors(config.customColors);
+  const formats = config.colorFormat === undefined ? undefined : parseColorFormats(config.colorFormat);
+
+  const format = (config.format ?? "css") as CliFormat;
+  if (!FORMATS.includes(format)) {
+    throw new CliInputError(`Unknown format "${String(config.format)}", expected one of: ${FORMATS.join(", ")}`);
+  }
+
+  const mode = (config.mode ?? "system") as ColorMode;
+  if (!["light", "dark", "system"].includes(mode)) {
+    throw new CliInputError(`Unknown mode "${String(config.mode)}", expected one of: light, dark, system`);
+  }
+
+  if (config.out !== undefined && typeof config.out !== "string") {
+    throw new CliInputError('"out" must be a file path');
+  }
+
+  let theme: MaterialTheme;
+  try {
+    theme = createMaterialTheme(
+      argbFromHex(config.source),
+      variant,
+      contrast,
+      customColors.map((color) => ({ ...color, value: argbFromHex(color.value) })),
+    );
+  } catch (error) {
+    throw new CliInputError(`Could not generate the theme: ${(error as Error).message}`);
+  }
+
+  const content =
+    format === "css"
+      ? `${renderThemeCss(theme, { mode, formats })}\n`
+      : format === "json"
+        ? `${exportDesignTokens(theme)}\n`
+        : exportScssVariables(theme);
+
+  return { content, out: config.out };
+};
+
+/**
+ * Runs the command-line theme generator.
+ *
+ * @param {string[]} argv - Arguments without the node executable and script path
+ * @param {CliIO} io - File system and console access
+ * @returns {number} Process exit code, see EXIT_CODES
+ *
+ * @example
+ * ```ts
+ * runCli(["generate", "--source", "#6D509F", "--format", "scss", "--out", "theme.scss"], io);
+ * ```
+ */
+export const runCli = (argv: string[], io: CliIO): number => {
+  let values: Record<string, string | boolean | undefined>;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        source: { type: "string" },
+        variant: { type: "string" },
+        contrast: { type: "string" },
+        mode: { type: "string" },
+        format: { type: "string" },
+        "color-format": { type: "string" },
+        out: { type: "string" },
+        config: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    }));
+  } catch (error) {
+    io.stderr(`error: ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_CODES.INVALID_INPUT;
+  }
+
+  if (values.help) {
+    io.stdout(USAGE);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (positionals.length !== 1 || positionals[0] !== "generate") {
+    io.stderr(
+      `error: ${positionals.length === 0 ? "Missing command" : `Unknown command "${positionals.join(" ")}"`}\n\n${USAGE}`,
+    );
+    return EXIT_CODES.INVALID_INPUT;
+  }
+
+  let fileConfig: GenerateConfig = {};
+  if (typeof values.config === "string") {
+    let text: string;
+    try {
+      text = io.readFile(values.config);
+    } catch (error) {
+      io.stderr(`error: Could not read config file "${values.config}": ${(error as Error).message}\n`);
+      return EXIT_CODES.IO_ERROR;
+    }
+
+    try {
+      fileConfig = JSON.parse(text);
+    } catch (error) {
+      io.stderr(`error: Config file "${values.config}" is not valid JSON: ${(error as Error).message}\n`);
+      return EXIT_CODES.INVALID_INPUT;
+    }
+    if (typeof fileConfig !== "object" || fileConfig === null || Array.isArray(fileConfig)) {
+      io.stderr(`error: Config file "${values.config}" must contain a JSON object\n`);
+      return EXIT_CODES.INVALID_INPUT;
+    }
+  }
+
+  const { config: _config, help: _help, "color-format": colorFormat, ...flags } = values;
+  const definedFlags = Object.fromEntries(Object.entries(flags).filter(([, value]) => value !== undefined));
+
+  let result: { content: string; out: string | undefined };
+  try {
+    result = generate({ ...fileConfig, ...definedFlags, ...(colorFormat === undefined ? {} : { colorFormat }) });
+  } catch (error) {
+    if (error instanceof CliInputError) {
+      io.stderr(`error: ${error.message}\n`);
+      return EXIT_CODES.INVALID_INPUT;
+    }
+    throw error;
+  }
+
+  if (result.out === undefined) {
+    io.stdout(result.content);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  try {
+    io.writeFile(result.out, result.content);
+  } catch (error) {
+    io.stderr(`error: Could not write "${result.out}": ${(error as Error).message}\n`);
+    return EXIT_CODES.IO_ERROR;
+  }
+
+  return EXIT_CODES.SUCCESS;
+};
@@ -0,0 +1,239 @@
+import {
+  argbFromHex,
+  argbFromRgb,
+  blueFromArgb,
+  greenFromArgb,
+  hexFromArgb,
+  redFromArgb,
+} from "@material/material-color-utilities";
+import type { ColorFormat } from "./types";
+
+/**
+ * Token name suffixes of the color formats, used for every format after the first one.
+ * RGB channel tokens always use their suffix, e.g. `--md-sys-color-primary-rgb`.
+ */
+export const COLOR_FORMAT_SUFFIXES: Record<ColorFormat, string> = {
+  hex: "-hex",
+  "rgb-channels": "-rgb",
+  rgb: "-rgb-color",
+  hsl: "-hsl",
+  oklch: "-oklch",
+};
+
+/**
+ * Rounds a number for CSS output, without trailing zeros or negative zero.
+ *
+ * @param {number} value - Number to round
+ * @param {number} digits - Fraction digits to keep
+ * @returns {string} Rounded number
+ */
+const round = (value: number, digits: number): string => String(Number(value.toFixed(digits)) + 0);
+
+/**
+ * Converts an 8-bit sRGB channel to linear light.
+ *
+ * @param {number} channel - Channel value from 0 to 255
+ * @returns {number} Linear value from 0 to 1
+ */
+const linearize = (channel: number): number => {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+/**
+ * Converts a linear light value to an 8-bit sRGB channel, clamping colors outside the sRGB gamut.
+ *
+ * @param {number} value - Linear value from 0 to 1
+ * @returns {number} Channel value from 0 to 255
+ */
+const delinearize = (value: number): number => {
+  const clamped = Math.min(Math.max(value, 0), 1);
+  const encoded = clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * clamped ** (1 / 2.4) - 0.055;
+  return Math.round(encoded * 255);
+};
+
+/**
+ * Converts hue, saturation and lightness to an ARGB color.
+ *
+ * @param {number} hue - Hue in degrees
+ * @param {number} saturation - Saturation from 0 to 1
+ * @param {number} lightness - Lightness from 0 to 1
+ * @returns {number} Color in ARGB format
+ */
+const argbFromHsl = (hue: number, saturation: number, lightness: number): number => {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round((lightness - (chroma / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255);
+  };
+  return argbFromRgb(channel(0), channel(8), channel(4));
+};
+
+/**
+ * Converts OKLCH coordinates to an ARGB color, through OKLab.
+ *
+ * @param {number} lightness - Lightness from 0 to 1
+ * @param {number} chroma - Chroma
+ * @param {number} hue - Hue in degrees
+ * @returns {number} Color in ARGB format
+ */
+const argbFromOklch = (lightness: number, chroma: number, hue: number): number => {
+  const labA = chroma * Math.cos((hue * Math.PI) / 180);
+  const labB = chroma * Math.sin((hue * Math.PI) / 180);
+
+  const l = (lightness + 0.3963377774 * labA + 0.2158037573 * labB) ** 3;
+  const m = (lightness - 0.1055613458 * labA - 0.0638541728 * labB) ** 3;
+  const s = (lightness - 0.0894841775 * labA - 1.291485548 * labB) ** 3;
+
+  return argbFromRgb(
+    delinearize(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    delinearize(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    delinearize(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  );
+};
+
+/**
+ * Formats the hue, saturation and lightness of an ARGB color.
+ *
+ * @param {number} argb - Color in ARGB format
+ * @returns {string} `hsl()` color
+ */
+const formatHsl = (argb: number): string => {
+  const r = redFromArgb(argb) / 255;
+  const g = greenFromArgb(argb) / 255;
+  const b = blueFromArgb(argb) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  const lightness = (max + min) / 2;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+  }
+
+  return `hsl(${round(hue, 1)} ${round(saturation * 100, 1)}% ${round(lightness * 100, 1)}%)`;
+};
+
+/**
+ * Formats the OKLCH coordinates of an ARGB color, converted through OKLab.
+ *
+ * @param {number} argb - Color in ARGB format
+ * @returns {string} `oklch()` color
+ */
+const formatOklch = (argb: number): string => {
+  const r = linearize(redFromArgb(argb));
+  const g = linearize(greenFromArgb(argb));
+  const b = linearize(blueFromArgb(argb));
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const labA = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const labB = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const chroma = Math.sqrt(labA * labA + labB * labB);
+  // Hue is meaningless for grays, and rounding noise would otherwise produce arbitrary angles
+  const hue = chroma < 0.0002 ? 0 : ((Math.atan2(labB, labA) * 180) / Math.PI + 360) % 360;
+
+  return `oklch(${round(lightness * 100, 2)}% ${round(chroma, 4)} ${round(hue, 2)})`;
+};
+
+/**
+ * Formats an ARGB color for CSS output.
+ *
+ * @param {number} argb - Color in ARGB format
+ * @param {ColorFormat} format - Output format
+ * @returns {string} Formatted color
+ *
+ * @example
+ * ```ts
+ * formatColor(0xff6750a4, "rgb-channels"); // "103 80 164"
+ * formatColor(0xff6750a4, "oklch"); // "oklch(49.55% 0.1305 293.71)"
+ * ```
+ */
+export const formatColor = (argb: number, format: ColorFormat): string => {
+  switch (format) {
+    case "hex":
+      return hexFromArgb(argb);
+    case "rgb-channels":
+      return `${redFromArgb(argb)} ${greenFromArgb(argb)} ${blueFromArgb(argb)}`;
+    case "rgb":
+      return `rgb(${redFromArgb(argb)} ${greenFromArgb(argb)} ${blueFromArgb(argb)})`;
+    case "hsl":
+      return formatHsl(argb);
+    case "oklch":
+      return formatOklch(argb);
+  }
+};
+
+const NUMBER = "(-?\\d+(?:\\.\\d+)?)";
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+const RGB_CHANNELS_PATTERN = /^(\d{1,3}) (\d{1,3}) (\d{1,3})$/;
+const RGB_PATTERN = /^rgb\((\d{1,3}) (\d{1,3}) (\d{1,3})\)$/;
+const HSL_PATTERN = new RegExp(`^hsl\\(${NUMBER} ${NUMBER}% ${NUMBER}%\\)$`);
+const OKLCH_PATTERN = new RegExp(`^oklch\\(${NUMBER}% ${NUMBER} ${NUMBER}\\)$`);
+
+/**
+ * Parses a color written by `formatColor`, detecting its format.
+ *
+ * @param {string} value - Formatted color
+ * @returns {{ argb: number, format: ColorFormat } | null} Color in ARGB format and its format, or null when the value
+ * is not a color in one of the supported formats
+ *
+ * @example
+ * ```ts
+ * parseColor("rgb(103 80 164)"); // { argb: 0xff6750a4, format: "rgb" }
+ * ```
+ */
+export const parseColor = (value: string): { argb: number; format: ColorFormat } | null => {
+  if (HEX_PATTERN.test(value)) {
+    return { argb: argbFromHex(value), format: "hex" };
+  }
+
+  const channels = RGB_CHANNELS_PATTERN.exec(value) ?? RGB_PATTERN.exec(value);
+  if (channels) {
+    const [red, green, blue] = channels.slice(1).map(Number);
+    if (red > 255 || green > 255 || blue > 255) return null;
+    return { argb: argbFromRgb(red, green, blue), format: value.startsWith("rgb(") ? "rgb" : "rgb-channels" };
+  }
+
+  const hsl = HSL_PATTERN.exec(value);
+  if (hsl) {
+    const [hue, saturation, lightness] = hsl.slice(1).map(Number);
+    return { argb: argbFromHsl(hue, saturation / 100, lightness / 100), format: "hsl" };
+  }
+
+  const oklch = OKLCH_PATTERN.exec(value);
+  if (oklch) {
+    const [lightness, chroma, hue] = oklch.slice(1).map(Number);
+    return { argb: argbFromOklch(lightness / 100, chroma, hue), format: "oklch" };
+  }
+
+  return null;
+};
+
+/**
+ * Lists the tokens of one color in each of the given formats.
+ * The first format other than RGB channels uses the plain token name, the others add their suffix. Without such a
+ * format, the plain token is a hex color, so `var()` references to it always resolve.
+ *
+ * @param {string} name - Token name
+ * @param {number} argb - Color in ARGB format
+ * @param {ColorFormat[]} formats - Output formats
+ * @returns {Array<[string, string]>} Token names and values
+ */
+export const formatColorTokens = (name: string, argb: number, formats: ColorFormat[]): Array<[string, string]> => {
+  const plainFormat = formats.find((format) => format !== "rgb-channels");
+  const tokens = formats.map((format): [string, string] => [
+    format === plainFormat ? name : `${name}${COLOR_FORMAT_SUFFIXES[format]}`,
+    formatColor(argb, format),
+  ]);
+
+  return plainFormat ? tokens : [[name, hexFromArgb(argb)], ...tokens];
+};
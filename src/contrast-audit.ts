@@ -0,0 +1,121 @@
+import { argbFromHex, Contrast, lstarFromArgb } from "@material/material-color-utilities";
+import { toTokenName } from "./string-utils";
+import { getThemeTokens } from "./theme-utils";
+import type { ContrastAuditPair, MaterialTheme, ThemeContrastAudit } from "./types";
+
+/**
+ * Minimum WCAG 2.x contrast ratios. Graphics follow 1.4.11 (non-text contrast), which defines no enhanced level.
+ */
+export const REQUIRED_RATIOS = {
+  text: { aa: 4.5, aaa: 7 },
+  graphic: { aa: 3, aaa: 3 },
+} as const;
+
+const SURFACES = [
+  "surface",
+  "surface-dim",
+  "surface-bright",
+  "surface-container-lowest",
+  "surface-container-low",
+  "surface-container",
+  "surface-container-high",
+  "surface-container-highest",
+];
+
+// Foreground and background roles, without the `--md-sys-color-` prefix, checked in both schemes
+const SYSTEM_PAIRS: Array<[string, string, keyof typeof REQUIRED_RATIOS]> = [
+  ...["primary", "secondary", "tertiary", "error"].flatMap(
+    (role): Array<[string, string, "text"]> => [
+      [`on-${role}`, role, "text"],
+      [`on-${role}-container`, `${role}-container`, "text"],
+    ],
+  ),
+  ...["primary", "secondary", "tertiary"].flatMap(
+    (role): Array<[string, string, "text"]> => [
+      [`on-${role}-fixed`, `${role}-fixed`, "text"],
+      [`on-${role}-fixed`, `${role}-fixed-dim`, "text"],
+      [`on-${role}-fixed-variant`, `${role}-fixed`, "text"],
+      [`on-${role}-fixed-variant`, `${role}-fixed-dim`, "text"],
+    ],
+  ),
+  ...SURFACES.flatMap(
+    (surface): Array<[string, string, "text"]> => [
+      ["on-surface", surface, "text"],
+      ["on-surface-variant", surface, "text"],
+    ],
+  ),
+  ["on-background", "background", "text"],
+  ["inverse-on-surface", "inverse-surface", "text"],
+  ["inverse-primary", "inverse-surface", "text"],
+  ["outline", "surface", "graphic"],
+];
+
+/**
+ * Calculates the WCAG contrast ratio between two colors.
+ *
+ * @param {string} foreground - Foreground color in hex format
+ * @param {string} background - Background color in hex format
+ * @returns {number} Contrast ratio from 1 to 21
+ */
+export const getContrastRatio = (foreground: string, background: string): number =>
+  Contrast.ratioOfTones(lstarFromArgb(argbFromHex(foreground)), lstarFromArgb(argbFromHex(background)));
+
+/**
+ * Checks the contrast of every foreground/background role pair of a theme against WCAG 2.x, in both schemes and
+ * including custom colors. Text pairs need 4.5:1 (AA) and 7:1 (AAA); graphics such as outlines need 3:1.
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @returns {ThemeContrastAudit} Every checked pair, the pairs failing AA and whether all pairs pass AA
+ *
+ * @example
+ * ```ts
+ * const { passes, failures } = auditTheme(theme);
+ * failures.forEach((pair) => console.log(pair.foreground, pair.background, pair.ratio));
+ * ```
+ */
+export const auditTheme = (theme: MaterialTheme): ThemeContrastAudit => {
+  const customPairs = theme.customColors.flatMap((group): Array<[string, string]> => {
+    const name = toTokenName(group.color.name);
+    return [
+      [`--md-custom-color-on-${name}`, `--md-custom-color-${name}`],
+      [`--md-custom-color-on-${name}-container`, `--md-custom-color-${name}-container`],
+    ];
+  });
+
+  const pairs: ContrastAuditPair[] = [];
+  for (const scheme of ["light", "dark"] as const) {
+    const tokens = getThemeTokens(theme, scheme === "dark");
+    const check = (foreground: string, background: string, kind: keyof typeof REQUIRED_RATIOS) => {
+      const ratio = getContrastRatio(tokens.get(foreground) as string, tokens.get(background) as string);
+      pairs.push({
+        scheme,
+        foreground,
+        background,
+        kind,
+        ratio,
+        aa: ratio >= REQUIRED_RATIOS[kind].aa,
+        aaa: ratio >= REQUIRED_RATIOS[kind].aaa,
+      });
+    };
+
+    for (const [foreground, background, kind] of SYSTEM_PAIRS) {
+      check(`--md-sys-color-${foreground}`, `--md-sys-color-${background}`, kind);
+    }
+    for (const [foreground, background] of customPairs) {
+      check(foreground, background, "text");
+    }
+  }
+
+  const failures = pairs.filter((pair) => !pair.aa);
+  return { pairs, failures, passes: failures.length === 0 };
+};
+
+/**
+ * Formats a failing pair as a readable warning message.
+ *
+ * @param {ContrastAuditPair} pair - Audited pair
+ * @returns {string} Warning message
+ */
+export const formatContrastFailure = (pair: ContrastAuditPair): string =>
+  `Insufficient contrast in the ${pair.scheme} scheme: ${pair.foreground} on ${pair.background} is ` +
+  `${pair.ratio.toFixed(2)}:1, ${pair.kind} requires ${REQUIRED_RATIOS[pair.kind].aa}:1 (WCAG AA)`;
@@ -0,0 +1,73 @@
+import { argbFromHex, Blend, customColor, hexFromArgb } from "@material/material-color-utilities";
+import { isHexColor } from "./theme-utils";
+import { createLruCache } from "./lru-cache";
+import type { ColorRoles } from "./types";
+
+// Results shared by all components, keyed by source color and input, so re-renders with the same colors are free
+const HARMONIZE_CACHE_SIZE = 256;
+const harmonizedColors = createLruCache<string>(HARMONIZE_CACHE_SIZE);
+const colorRoles = createLruCache<ColorRoles>(HARMONIZE_CACHE_SIZE);
+
+/**
+ * Shifts the hue of a color toward a source color, so it fits the theme while keeping its identity.
+ * Invalid colors are reported and returned unchanged.
+ *
+ * @param {string} color - Color in hex format
+ * @param {number} source - Source color in ARGB format
+ * @returns {string} Harmonized color in hex format
+ *
+ * @example
+ * ```ts
+ * harmonizeColor("#FF0000", argbFromHex("#6D509F")); // "#fb0057"
+ * ```
+ */
+export const harmonizeColor = (color: string, source: number): string => {
+  if (!isHexColor(color)) {
+    console.error(`Invalid hex value "${color}" for harmonized color`);
+    return color;
+  }
+
+  const key = `${source}:${color}`;
+  let harmonized = harmonizedColors.get(key);
+  if (harmonized === undefined) {
+    harmonized = hexFromArgb(Blend.harmonize(argbFromHex(color), source));
+    harmonizedColors.set(key, harmonized);
+  }
+
+  return harmonized;
+};
+
+/**
+ * Generates the color, on-color, container and on-container roles of a color, the same way as for custom colors.
+ * Invalid colors are reported and replaced by the source color.
+ *
+ * @param {string} color - Color in hex format
+ * @param {number} source - Source color in ARGB format
+ * @param {boolean} isDark - Whether to generate dark mode values
+ * @param {boolean} [harmonize=true] - Whether to shift the hue toward the source color first
+ * @returns {ColorRoles} Role values in hex format
+ */
+export const getColorRoles = (color: string, source: number, isDark: boolean, harmonize = true): ColorRoles => {
+  const key = `${source}:${color}:${isDark}:${harmonize}`;
+  const cached = colorRoles.get(key);
+  if (cached) return cached;
+
+  let value = source;
+  if (isHexColor(color)) {
+    value = argbFromHex(color);
+  } else {
+    console.error(`Invalid hex value "${color}" for color roles`);
+  }
+
+  const group = customColor(source, { name: "", value, blend: harmonize });
+  const roles = isDark ? group.dark : group.light;
+  const result: ColorRoles = {
+    color: hexFromArgb(roles.color),
+    onColor: hexFromArgb(roles.onColor),
+    container: hexFromArgb(roles.colorContainer),
+    onContainer: hexFromArgb(roles.onColorContainer),
+  };
+  colorRoles.set(key, result);
+
+  return result;
+};
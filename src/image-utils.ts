@@ -0,0 +1,105 @@
+import { argbFromRgb, QuantizerCelebi, Score } from "@material/material-color-utilities";
+import type { ImageColorOptions, ImageSource } from "./types";
+
+/**
+ * Checks whether an image source is raw RGBA pixel data rather than an image object.
+ *
+ * @param {ImageSource} image - Image source to check
+ * @returns {boolean} True if the source is a pixel array
+ */
+const isPixelArray = (image: ImageSource): image is ArrayLike<number> =>
+  typeof (image as ArrayLike<number>).length === "number";
+
+/**
+ * Waits for an image element to finish loading.
+ *
+ * @param {HTMLImageElement} image - Image element to wait for
+ * @returns {Promise<void>} Resolves once the image can be drawn
+ */
+const waitForImage = (image: HTMLImageElement): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (image.complete) {
+      resolve();
+      return;
+    }
+    image.addEventListener("load", () => resolve(), { once: true });
+    image.addEventListener("error", () => reject(new Error("Image load failed")), { once: true });
+  });
+
+/**
+ * Reads the RGBA pixel data of an image element or bitmap by drawing it to a canvas.
+ *
+ * @param {HTMLImageElement | ImageBitmap} image - Image to read
+ * @returns {Promise<Uint8ClampedArray>} RGBA pixel data
+ * @throws {Error} When no 2D canvas context is available
+ */
+const readImagePixels = async (image: HTMLImageElement | ImageBitmap): Promise<Uint8ClampedArray> => {
+  if (typeof HTMLImageElement !== "undefined" && image instanceof HTMLImageElement) {
+    await waitForImage(image);
+  }
+
+  const width = "naturalWidth" in image ? image.naturalWidth : image.width;
+  const height = "naturalHeight" in image ? image.naturalHeight : image.height;
+
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(width, height)
+      : Object.assign(document.createElement("canvas"), { width, height });
+  const context = canvas.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error("Could not get canvas context");
+  }
+
+  context.drawImage(image, 0, 0);
+  return context.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Ranks candidate theme source colors from raw RGBA pixel data.
+ * Pixels are quantized and scored with material-color-utilities; works without a DOM or canvas.
+ *
+ * @param {ArrayLike<number>} pixels - RGBA pixel data, four values per pixel (e.g. `ImageData.data`)
+ * @param {ImageColorOptions} [options] - Quantization and scoring options
+ * @returns {number[]} Candidate source colors in ARGB format, most suitable first
+ * @throws {Error} When the pixel data is not a sequence of RGBA values
+ *
+ * @example
+ * ```ts
+ * const [source] = sourceColorsFromPixels(context.getImageData(0, 0, width, height).data);
+ * ```
+ */
+export const sourceColorsFromPixels = (pixels: ArrayLike<number>, options: ImageColorOptions = {}): number[] => {
+  const { maxColors = 128, desired = 4, filter = true } = options;
+
+  if (pixels.length % 4 !== 0) {
+    throw new Error("Pixel data must contain four RGBA values per pixel");
+  }
+
+  const argbPixels: number[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    // Skip transparent and translucent pixels
+    if (pixels[i + 3] < 255) continue;
+    argbPixels.push(argbFromRgb(pixels[i], pixels[i + 1], pixels[i + 2]));
+  }
+
+  const colorsToPopulation = QuantizerCelebi.quantize(argbPixels, maxColors);
+  return Score.score(colorsToPopulation, { desired, filter });
+};
+
+/**
+ * Ranks candidate theme source colors from an image, such as a wallpaper, album art or avatar.
+ *
+ * @param {ImageSource} image - Image element, bitmap or raw RGBA pixel data
+ * @param {ImageColorOptions} [options] - Quantization and scoring options
+ * @returns {Promise<number[]>} Candidate source colors in ARGB format, most suitable first
+ *
+ * @example
+ * ```ts
+ * const [source] = await sourceColorFromImage(document.querySelector("img")!);
+ * const theme = createMaterialTheme(source);
+ * ```
+ */
+export const sourceColorFromImage = async (image: ImageSource, options: ImageColorOptions = {}): Promise<number[]> => {
+  const pixels = isPixelArray(image) ? image : await readImagePixels(image);
+  return sourceColorsFromPixels(pixels, options);
+};
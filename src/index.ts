@@ -1,3 +1,20 @@
 export * from "./material-theme-provider";
+export * from "./material-theme-style";
 export * from "./types";
 export * from "./theme-utils";
+export * from "./theme-controller";
+export * from "./color-formats";
+export * from "./variants";
+export * from "./use-media-query";
+export * from "./state-tokens";
+export * from "./system-tokens";
+export * from "./use-state-tokens";
+export * from "./use-theme-colors";
+export * from "./image-utils";
+export * from "./persistence";
+export * from "./token-exporters";
+export * from "./theme-transition";
+export * from "./contrast-audit";
+export * from "./theme-builder";
+export * from "./harmonize";
+export * from "./use-color-roles";
@@ -0,0 +1,49 @@
+/**
+ * Cache holding a limited number of entries, evicting the least recently used one first.
+ *
+ * @interface LruCache
+ * @property {(key: string) => V | undefined} get - Returns an entry and marks it as recently used
+ * @property {(key: string, value: V) => void} set - Adds or replaces an entry
+ * @property {() => void} clear - Removes every entry
+ * @property {number} size - Number of entries
+ */
+export interface LruCache<V> {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V) => void;
+  clear: () => void;
+  readonly size: number;
+}
+
+/**
+ * Creates an LRU cache. Entries are kept in a Map, whose insertion order tracks recency.
+ *
+ * @param {number} maxSize - Maximum number of entries
+ * @returns {LruCache<V>} Cache
+ */
+export const createLruCache = <V>(maxSize: number): LruCache<V> => {
+  const entries = new Map<string, V>();
+
+  return {
+    get: (key) => {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxSize) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    clear: () => {
+      entries.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+};
@@ -0,0 +1,11 @@
+import { createContext } from "react";
+import type { MaterialThemeContextType } from "./types";
+
+/**
+ * Context for Material Theme providing access to theme data and controls.
+ * Shared by MaterialThemeProvider and the providers of the testing entry point.
+ * @property {MaterialTheme} materialTheme - Current Material theme configuration
+ * @property {Function} setSourceColor - Function to update the theme's source color
+ * @property {DynamicScheme} currentScheme - Current color scheme based on light/dark mode
+ */
+export const MaterialThemeContext = createContext<MaterialThemeContextType | undefined>(undefined);
@@ -1,89 +1,311 @@
 "use client";
 
-import React, { createContext, useContext, useEffect, useState, useTransition } from "react";
-import { argbFromHex, type DynamicScheme } from "@material/material-color-utilities";
-import { type MaterialTheme, type MaterialThemeContextType, type MaterialThemeProviderProps, Variant } from "./types";
-import { createMaterialTheme, getThemeTokens } from "./theme-utils";
+import React, { useCallback, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import {
+  type ColorMode,
+  type ColorOverrides,
+  ContrastLevel,
+  type HexCustomColor,
+  type HexSeedColors,
+  type MaterialThemeProviderProps,
+  type PaletteName,
+  type ThemeConfig,
+  type ThemeController,
+  type ThemeControllerSettings,
+  type ThemeVariant,
+  Variant,
+} from "./types";
+import { getPaletteTone } from "./theme-utils";
+import { createThemeController } from "./theme-controller";
+import { auditTheme, formatContrastFailure } from "./contrast-audit";
+import { formatThemeBuilderMismatch } from "./theme-builder";
+import { harmonizeColor } from "./harmonize";
+import { resolveMotion, resolveShape, resolveTypography } from "./system-tokens";
+import { MaterialThemeContext } from "./material-theme-context";
+
+// Stable default so the theme options are not passed to the controller again on every render
+const NO_CUSTOM_COLORS: HexCustomColor[] = [];
+const NO_SEED_COLORS: HexSeedColors = {};
+const NO_THEMES: Record<string, ThemeConfig> = {};
+const NO_OVERRIDES: ColorOverrides = {};
+
+const DEFAULT_PREFIX = "--md-sys-color-";
+
+// Props passed on to the controller's setters, which reset the choices made through them
+interface ChoiceProps {
+  variant: ThemeVariant;
+  mode: ColorMode;
+  contrastLevel: number;
+  activeTheme: string | null;
+}
 
 /**
- * Context for Material Theme providing access to theme data and controls.
- * @property {MaterialTheme | null} materialTheme - Current Material theme configuration
- * @property {Function} setSourceColor - Function to update the theme's source color
- * @property {DynamicScheme | null} currentScheme - Current color scheme based on light/dark mode
+ * Returns the previous value while a new one has the same JSON content.
+ *
+ * @param {T} value - Option value, possibly created on every render
+ * @returns {T} Value with a stable identity
  */
-const MaterialThemeContext = createContext<MaterialThemeContextType | undefined>(undefined);
+function useContentStable<T>(value: T): T {
+  const stable = useRef(value);
+  if (stable.current !== value && JSON.stringify(stable.current) !== JSON.stringify(value)) {
+    stable.current = value;
+  }
+  return stable.current;
+}
+
+/**
+ * Passes props on to the controller during the render in which they change, so that render already reads the
+ * resulting state instead of rendering the consumers once more after an effect. A changed choice prop resets the
+ * choice made through its setter (or restored from storage) in the meantime; the options are passed on together
+ * whenever one of them changes.
+ *
+ * @param {ThemeController} controller - Theme controller
+ * @param {ChoiceProps} choices - Props controlling the theme choices
+ * @param {ThemeControllerSettings} options - Props passed on as controller options
+ * @returns {(listener: () => void) => () => void} Subscribe function for `useSyncExternalStore`
+ */
+function useControllerProps(
+  controller: ThemeController,
+  choices: ChoiceProps,
+  options: ThemeControllerSettings,
+): (listener: () => void) => () => void {
+  const previous = useRef({ choices, options });
+  const syncing = useRef(false);
+
+  // Changes made while syncing are read by the same render; notifying React of them would schedule another one
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      controller.subscribe(() => {
+        if (!syncing.current) listener();
+      }),
+    [controller],
+  );
+
+  const changed = <T extends object>(before: T, after: T) =>
+    (Object.keys(after) as Array<keyof T>).some((key) => !Object.is(before[key], after[key]));
+
+  syncing.current = true;
+  try {
+    const { choices: previousChoices, options: previousOptions } = previous.current;
+    if (!Object.is(previousChoices.variant, choices.variant)) controller.setVariant(choices.variant);
+    if (!Object.is(previousChoices.mode, choices.mode)) controller.setMode(choices.mode);
+    if (!Object.is(previousChoices.contrastLevel, choices.contrastLevel)) {
+      controller.setContrastLevel(choices.contrastLevel);
+    }
+    if (!Object.is(previousChoices.activeTheme, choices.activeTheme)) controller.setActiveTheme(choices.activeTheme);
+    if (changed(previousOptions, options)) controller.setOptions(options);
+  } finally {
+    syncing.current = false;
+  }
+  previous.current = { choices, options };
+
+  return subscribe;
+}
 
 /**
  * Provider component for Material Design 3 theming system.
- * Manages theme generation and CSS variable injection based on a source color.
+ * Manages theme generation and CSS variable injection based on a source color, through a theme controller created with
+ * `createThemeController` whose state is read with `useSyncExternalStore`.
  *
  * @component
  * @param {MaterialThemeProviderProps} props - Component props
  * @param {ReactNode} props.children - Child components to be wrapped
- * @param {boolean} [props.isDark=false] - Whether to use dark mode
- * @param {Variant} [props.variant=Variant.FIDELITY] - Theme variant to use
+ * @param {boolean} [props.isDark=false] - Whether to use dark mode; ignored when `mode` is set
+ * @param {ColorMode} [props.mode] - Color scheme mode; "system" follows `prefers-color-scheme`
+ * @param {ThemeVariant} [props.variant=Variant.FIDELITY] - Built-in or registered custom variant to use
+ * @param {number} [props.contrastLevel=ContrastLevel.STANDARD] - Contrast level (-1.0 to 1.0)
+ * @param {"medium" | "high"} [props.systemContrast] - Minimum contrast level while `prefers-contrast: more` matches
  * @param {string} [props.defaultSourceColor="#6D509F"] - Initial source color in hex format
- * @param {Array<CustomColor>} [props.customColors=[]] - Array of custom color definitions
+ * @param {HexCustomColor[]} [props.customColors=[]] - Array of custom color definitions
+ * @param {HexSeedColors} [props.seedColors={}] - Seed colors of palettes not derived from the source color
+ * @param {Record<string, ThemeConfig>} [props.themes={}] - Named themes that can be switched to at runtime
+ * @param {string} [props.activeTheme] - Named theme to use instead of the provider's own theme
+ * @param {ThemeBuilderImport} [props.importedTheme] - Theme imported with `parseThemeBuilderJson`, used instead of
+ * generating one from the source color
+ * @param {boolean | number[]} [props.palettes] - Also apply `--md-ref-palette-*` tokens, at the standard or given tones
+ * @param {string} [props.prefix="--md-sys-color-"] - Prefix of the role tokens
+ * @param {ColorOverrides} [props.overrides={}] - Role colors replacing the generated values, also in the context
+ * @param {ThemeTokenTransform} [props.transform] - Function adjusting the tokens before they are applied
+ * @param {ColorFormat[]} [props.formats=["hex"]] - Color formats of the applied tokens
+ * @param {boolean} [props.states=false] - Also apply `--md-sys-state-*` state layer tokens
+ * @param {boolean} [props.elevation=false] - Also apply `--md-sys-elevation-surface-level*` tokens
+ * @param {boolean | TypographyOptions} [props.typography] - Also apply typeface and type scale tokens
+ * @param {boolean | Partial<ShapeConfig>} [props.shape] - Also apply `--md-sys-shape-corner-*` tokens
+ * @param {boolean | MotionOptions} [props.motion] - Also apply `--md-sys-motion-*` easing and duration tokens
+ * @param {ThemeTransition} [props.transition] - Animate color changes with the given duration and easing
+ * @param {boolean} [props.auditContrast=false] - Log warnings for role pairs failing WCAG AA (development only)
+ * @param {ThemePersistenceOptions} [props.persistence] - Storage for persisting theme choices between sessions
+ * @param {boolean} [props.scoped=false] - Whether to apply tokens to a wrapper element instead of the document root
+ * @param {RefObject<HTMLElement | null>} [props.target] - Element to apply tokens to instead of the document root
  *
  * @example
  * ```tsx
- * <MaterialThemeProvider defaultSourceColor="#6D509F" isDark={false}>
+ * <MaterialThemeProvider defaultSourceColor="#6D509F" mode="system">
  *   <App />
  * </MaterialThemeProvider>
+ *
+ * // Theme a single section of the page
+ * <MaterialThemeProvider defaultSourceColor="#B3261E" scoped>
+ *   <Preview />
+ * </MaterialThemeProvider>
  * ```
  */
 export function MaterialThemeProvider({
   children,
   isDark = false,
+  mode: modeProp,
   variant = Variant.FIDELITY,
-  defaultSourceColor = "#6D509F",
-  customColors = [],
+  contrastLevel = ContrastLevel.STANDARD,
+  systemContrast,
+  defaultSourceColor,
+  customColors = NO_CUSTOM_COLORS,
+  seedColors = NO_SEED_COLORS,
+  themes = NO_THEMES,
+  activeTheme: activeThemeProp,
+  importedTheme,
+  palettes,
+  prefix = DEFAULT_PREFIX,
+  overrides = NO_OVERRIDES,
+  transform,
+  formats,
+  states = false,
+  elevation = false,
+  typography,
+  shape,
+  motion,
+  transition,
+  auditContrast = false,
+  persistence,
+  scoped = false,
+  target,
 }: MaterialThemeProviderProps) {
-  // State for managing theme and source color
-  const [currentScheme, setCurrentScheme] = useState<DynamicScheme | null>(null);
-  const [materialTheme, setMaterialTheme] = useState<MaterialTheme | null>(null);
-  const [sourceColor, setSourceColor] = useState(defaultSourceColor);
+  const scopeRef = useRef<HTMLDivElement>(null);
+  const mode: ColorMode = modeProp ?? (isDark ? "dark" : "light");
+  const activeTheme = activeThemeProp ?? null;
+
+  // Option objects created on every render keep their identity while their content is the same
+  const typographyOption = useContentStable(typography);
+  const shapeOption = useContentStable(shape);
+  const motionOption = useContentStable(motion);
 
-  // Theme generation effect
+  const options: ThemeControllerSettings = {
+    systemContrast,
+    customColors,
+    seedColors,
+    themes,
+    importedTheme,
+    overrides,
+    palettes,
+    prefix,
+    transform,
+    formats,
+    states,
+    elevation,
+    typography: typographyOption,
+    shape: shapeOption,
+    motion: motionOption,
+    transition,
+  };
+
+  // The controller holds the theme state; the props set its initial values and options
+  const [controller] = useState(() =>
+    createThemeController({
+      source: defaultSourceColor,
+      variant,
+      contrast: contrastLevel,
+      mode,
+      activeTheme,
+      persistence,
+      ...options,
+    }),
+  );
+  const subscribe = useControllerProps(controller, { variant, mode, contrastLevel, activeTheme }, options);
+  const state = useSyncExternalStore(subscribe, controller.getState, controller.getState);
+  const materialTheme = state.theme;
+
+  // Report imported values that differ from the generated theme
   useEffect(() => {
-    try {
-      const argbColor = argbFromHex(sourceColor);
-      /*const customColorsArgb = customColors.map((color) => ({
-        ...color,
-        value: argbFromHex(color.value),
-      }));*/
-
-      const theme = createMaterialTheme(argbColor, variant, 0.0);
-      setMaterialTheme(theme);
-    } catch (error) {
-      console.error("Error generating material theme:", error);
+    if (!importedTheme || importedTheme.mismatches.length === 0) return;
+
+    console.warn(
+      `Imported theme differs from the generated theme in ${importedTheme.mismatches.length} roles, ` +
+        `the imported values are used:\n${importedTheme.mismatches.map(formatThemeBuilderMismatch).join("\n")}`,
+    );
+  }, [importedTheme]);
+
+  // Warn about role pairs with insufficient contrast
+  useEffect(() => {
+    if (!auditContrast) return;
+
+    for (const failure of auditTheme(materialTheme).failures) {
+      console.warn(formatContrastFailure(failure));
     }
-  }, [sourceColor, variant]);
+  }, [auditContrast, materialTheme]);
+
+  // Typography, shape and motion configs with the defaults filled in
+  const system = useMemo(
+    () => ({
+      typography: resolveTypography(typeof typographyOption === "object" ? typographyOption : {}),
+      shape: resolveShape(typeof shapeOption === "object" ? shapeOption : {}),
+      motion: resolveMotion(typeof motionOption === "object" ? motionOption : {}),
+    }),
+    [typographyOption, shapeOption, motionOption],
+  );
 
-  // Effect for setting the current color scheme based on theme and dark mode
+  // The target element is only known once it is mounted
   useEffect(() => {
-    if (!materialTheme) return;
+    controller.setOptions({ target: target ? target.current : scoped ? scopeRef.current : document.documentElement });
+  }, [controller, target, scoped]);
+
+  // Tokens are written after every commit, so they follow changes of the state and the options alike. The controller
+  // only computes them again when either changed, and only writes tokens whose values change.
+  useEffect(() => controller.apply());
 
-    // Update scheme
-    const scheme = isDark ? materialTheme.schemes.dark : materialTheme.schemes.light;
-    setCurrentScheme(scheme);
+  // Scoped tokens are removed again so they do not outlive the provider
+  useEffect(() => () => controller.destroy(), [controller]);
+
+  // Read tones from the current theme's tonal palettes
+  const getTone = useCallback(
+    (palette: PaletteName, tone: number) => getPaletteTone(materialTheme, palette, tone),
+    [materialTheme],
+  );
 
-    // Apply tokens
-    const tokens = getThemeTokens(materialTheme, isDark);
-    tokens.forEach((value, key) => {
-      document.documentElement.style.setProperty(key, value);
-    });
-  }, [materialTheme, isDark]);
+  // Shift arbitrary colors toward the current source color
+  const source = materialTheme.source;
+  const harmonize = useCallback((color: string) => harmonizeColor(color, source), [source]);
 
   return (
     <MaterialThemeContext.Provider
       value={{
         materialTheme,
-        setSourceColor,
-        currentScheme,
+        setSourceColor: controller.setSourceColor,
+        currentScheme: state.scheme,
+        variant: state.variant,
+        setVariant: controller.setVariant,
+        mode: state.mode,
+        resolvedMode: state.resolvedMode,
+        setMode: controller.setMode,
+        contrastLevel: state.contrastLevel,
+        setContrastLevel: controller.setContrastLevel,
+        setSourceImage: controller.setSourceImage,
+        getTone,
+        activeTheme: state.activeTheme,
+        setActiveTheme: controller.setActiveTheme,
+        registerTheme: controller.registerTheme,
+        prefix,
+        harmonize,
+        typography: system.typography,
+        shape: system.shape,
+        motion: system.motion,
       }}
     >
-      {children}
+      {scoped && !target ? (
+        <div ref={scopeRef} data-material-theme-scope="" style={{ display: "contents" }}>
+          {children}
+        </div>
+      ) : (
+        children
+      )}
     </MaterialThemeContext.Provider>
   );
 }
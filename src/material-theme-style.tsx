@@ -0,0 +1,52 @@
+import React from "react";
+import { argbFromHex } from "@material/material-color-utilities";
+import { ContrastLevel, type MaterialThemeStyleProps, Variant } from "./types";
+import { createMaterialTheme, customColorsFromHex, renderThemeCss, seedColorsFromHex } from "./theme-utils";
+
+/**
+ * Renders the theme tokens as an inline stylesheet, including during server rendering.
+ * Place it in the document head so pages are themed before MaterialThemeProvider runs its effects.
+ * Uses no hooks, so it can also be rendered as a React Server Component.
+ *
+ * @component
+ * @param {MaterialThemeStyleProps} props - Component props
+ * @param {string} [props.sourceColor="#6D509F"] - Source color in hex format
+ * @param {ThemeVariant} [props.variant=Variant.FIDELITY] - Built-in or registered custom variant to use
+ * @param {number} [props.contrastLevel=ContrastLevel.STANDARD] - Contrast level (-1.0 to 1.0)
+ * @param {HexCustomColor[]} [props.customColors=[]] - Array of custom color definitions
+ * @param {HexSeedColors} [props.seedColors={}] - Seed colors of palettes not derived from the source color
+ * @param {string} [props.selector=":root"] - Selector the tokens are written to
+ * @param {ColorMode} [props.mode="system"] - Which schemes to include
+ * @param {"media" | "attribute"} [props.darkStrategy="media"] - How dark rules are selected in "system" mode
+ * @param {boolean | number[]} [props.palettes] - Also include `--md-ref-palette-*` tokens
+ * @param {ColorFormat[]} [props.formats=["hex"]] - Color formats of the tokens
+ * @param {string} [props.nonce] - Content Security Policy nonce
+ *
+ * @example
+ * ```tsx
+ * <head>
+ *   <MaterialThemeStyle sourceColor="#6D509F" />
+ * </head>
+ * ```
+ */
+export function MaterialThemeStyle({
+  sourceColor = "#6D509F",
+  variant = Variant.FIDELITY,
+  contrastLevel = ContrastLevel.STANDARD,
+  customColors = [],
+  seedColors = {},
+  nonce,
+  ...cssOptions
+}: MaterialThemeStyleProps) {
+  const theme = createMaterialTheme(
+    argbFromHex(sourceColor),
+    variant,
+    contrastLevel,
+    customColorsFromHex(customColors),
+    seedColorsFromHex(seedColors),
+  );
+  const css = renderThemeCss(theme, cssOptions);
+
+  // biome-ignore lint/security/noDangerouslySetInnerHtml: the stylesheet is generated from theme tokens only
+  return <style nonce={nonce} data-material-theme-style="" dangerouslySetInnerHTML={{ __html: css }} />;
+}
@@ -0,0 +1,156 @@
+import { isHexColor } from "./theme-utils";
+import type { ColorMode, PersistedThemeState, ThemeStorageAdapter } from "./types";
+import { isKnownVariant } from "./variants";
+
+/**
+ * Version of the persisted theme state format. Stored state with a different version is ignored.
+ */
+export const THEME_STATE_VERSION = 1;
+
+const COLOR_MODES: ColorMode[] = ["light", "dark", "system"];
+
+/**
+ * Serializes theme state into the versioned format written to storage.
+ *
+ * @param {PersistedThemeState} state - Theme choices to persist
+ * @returns {string} Serialized state
+ */
+export const serializeThemeState = (state: PersistedThemeState): string =>
+  JSON.stringify({ version: THEME_STATE_VERSION, state });
+
+/**
+ * Parses and validates theme state read from storage.
+ *
+ * @param {string | null} value - Serialized state, or null when nothing is stored
+ * @returns {PersistedThemeState | null} Validated state, or null when missing, outdated or corrupt
+ */
+export const parseThemeState = (value: string | null): PersistedThemeState | null => {
+  if (value === null) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  if (typeof data !== "object" || data === null) return null;
+  const { version, state } = data as { version?: unknown; state?: unknown };
+  if (version !== THEME_STATE_VERSION || typeof state !== "object" || state === null) return null;
+
+  const { sourceColor, variant, mode, contrastLevel } = state as Record<string, unknown>;
+  if (sourceColor !== undefined && (typeof sourceColor !== "string" || !isHexColor(sourceColor))) return null;
+  if (variant !== undefined && !isKnownVariant(variant)) return null;
+  if (mode !== undefined && !COLOR_MODES.includes(mode as ColorMode)) return null;
+  if (contrastLevel !== undefined && (typeof contrastLevel !== "number" || contrastLevel < -1 || contrastLevel > 1)) {
+    return null;
+  }
+
+  return { sourceColor, variant, mode, contrastLevel } as PersistedThemeState;
+};
+
+/**
+ * Creates a storage adapter backed by a Web Storage area.
+ * Storage errors (e.g. private browsing or disabled storage) are ignored, and changes made in other
+ * browser tabs are reported through `storage` events.
+ *
+ * @param {() => Storage} getStorage - Returns the storage area; called lazily so SSR never touches `window`
+ * @returns {ThemeStorageAdapter} Storage adapter
+ */
+const createWebStorageAdapter = (getStorage: () => Storage): ThemeStorageAdapter => {
+  const storage = (): Storage | null => {
+    try {
+      return typeof window === "undefined" ? null : getStorage();
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    getItem: (key) => {
+      try {
+        return storage()?.getItem(key) ?? null;
+      } catch {
+        return null;
+      }
+    },
+    setItem: (key, value) => {
+      try {
+        storage()?.setItem(key, value);
+      } catch {
+        // Storage is full or unavailable; the choice is kept in memory only
+      }
+    },
+    removeItem: (key) => {
+      try {
+        storage()?.removeItem(key);
+      } catch {
+        // Storage is unavailable
+      }
+    },
+    subscribe: (key, listener) => {
+      const area = storage();
+      if (!area) return () => {};
+
+      const handleStorage = (event: StorageEvent) => {
+        if (event.storageArea === area && event.key === key) {
+          listener(event.newValue);
+        }
+      };
+
+      window.addEventListener("storage", handleStorage);
+      return () => window.removeEventListener("storage", handleStorage);
+    },
+  };
+};
+
+/**
+ * Creates a storage adapter that persists theme choices in `localStorage`, synced across browser tabs.
+ *
+ * @returns {ThemeStorageAdapter} Storage adapter
+ */
+export const createLocalStorageAdapter = (): ThemeStorageAdapter => createWebStorageAdapter(() => window.localStorage);
+
+/**
+ * Creates a storage adapter that persists theme choices in `sessionStorage` for the current tab.
+ *
+ * @returns {ThemeStorageAdapter} Storage adapter
+ */
+export const createSessionStorageAdapter = (): ThemeStorageAdapter =>
+  createWebStorageAdapter(() => window.sessionStorage);
+
+/**
+ * Creates a storage adapter that keeps theme choices in memory, e.g. for tests or server rendering.
+ * Providers sharing the same adapter are kept in sync.
+ *
+ * @returns {ThemeStorageAdapter} Storage adapter
+ */
+export const createMemoryStorageAdapter = (): ThemeStorageAdapter => {
+  const values = new Map<string, string>();
+  const listeners = new Set<{ key: string; listener: (value: string | null) => void }>();
+
+  const notify = (key: string, value: string | null) => {
+    for (const entry of listeners) {
+      if (entry.key === key) entry.listener(value);
+    }
+  };
+
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      if (values.get(key) === value) return;
+      values.set(key, value);
+      notify(key, value);
+    },
+    removeItem: (key) => {
+      if (!values.has(key)) return;
+      values.delete(key);
+      notify(key, null);
+    },
+    subscribe: (key, listener) => {
+      const entry = { key, listener };
+      listeners.add(entry);
+      return () => listeners.delete(entry);
+    },
+  };
+};
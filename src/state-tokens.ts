@@ -0,0 +1,96 @@
+import {
+  argbFromRgb,
+  blueFromArgb,
+  type DynamicScheme,
+  greenFromArgb,
+  hexFromArgb,
+  redFromArgb,
+} from "@material/material-color-utilities";
+import { type InteractionState, STATE_LAYER_ROLES, type StateLayerRole, type ThemeStateTokens } from "./types";
+
+/**
+ * State layer opacities of the Material Design 3 interaction states.
+ */
+export const STATE_LAYER_OPACITY: Readonly<Record<InteractionState, number>> = {
+  hover: 0.08,
+  focus: 0.1,
+  pressed: 0.1,
+  dragged: 0.16,
+};
+
+/**
+ * Opacity of the surface tint overlay at elevation levels 0 to 5.
+ */
+export const ELEVATION_TINT_OPACITY: readonly number[] = [0, 0.05, 0.08, 0.11, 0.12, 0.14];
+
+const INTERACTION_STATES = Object.keys(STATE_LAYER_OPACITY) as InteractionState[];
+
+/**
+ * Composites a translucent overlay onto an opaque background, as the browser renders a state layer.
+ *
+ * @param {number} background - Background color in ARGB format
+ * @param {number} overlay - Overlay color in ARGB format; its own alpha is ignored
+ * @param {number} opacity - Overlay opacity from 0 to 1
+ * @returns {number} Composited color in ARGB format
+ */
+export const blendOverlay = (background: number, overlay: number, opacity: number): number => {
+  const mix = (from: number, to: number) => Math.round(from + (to - from) * opacity);
+
+  return argbFromRgb(
+    mix(redFromArgb(background), redFromArgb(overlay)),
+    mix(greenFromArgb(background), greenFromArgb(overlay)),
+    mix(blueFromArgb(background), blueFromArgb(overlay)),
+  );
+};
+
+/**
+ * Returns a container role with the state layer of an interaction state blended in.
+ * The state layer uses the role of the content on the container, e.g. `onPrimary` on `primary`.
+ *
+ * @param {DynamicScheme} scheme - Color scheme
+ * @param {StateLayerRole} role - Container role
+ * @param {InteractionState} state - Interaction state
+ * @returns {number} Blended color in ARGB format
+ */
+export const getStateLayerColor = (scheme: DynamicScheme, role: StateLayerRole, state: InteractionState): number =>
+  blendOverlay(scheme[role], scheme[STATE_LAYER_ROLES[role]], STATE_LAYER_OPACITY[state]);
+
+/**
+ * Returns the surface color of an elevation level, tinted with `surfaceTint`.
+ *
+ * @param {DynamicScheme} scheme - Color scheme
+ * @param {number} level - Elevation level from 0 to 5
+ * @returns {number} Surface color in ARGB format
+ */
+export const getElevationSurface = (scheme: DynamicScheme, level: number): number =>
+  blendOverlay(scheme.surface, scheme.surfaceTint, ELEVATION_TINT_OPACITY[level] ?? 0);
+
+/**
+ * Collects the state layer opacities, blended state colors and elevation surfaces of a scheme.
+ *
+ * @param {DynamicScheme} scheme - Color scheme
+ * @returns {ThemeStateTokens} State and elevation values in hex format
+ *
+ * @example
+ * ```ts
+ * const { colors, elevation } = getStateTokens(theme.schemes.light);
+ * colors.primary.hover; // primary with an 8% onPrimary overlay
+ * elevation[2]; // surface at elevation level 2
+ * ```
+ */
+export const getStateTokens = (scheme: DynamicScheme): ThemeStateTokens => {
+  const colors = Object.fromEntries(
+    (Object.keys(STATE_LAYER_ROLES) as StateLayerRole[]).map((role) => [
+      role,
+      Object.fromEntries(
+        INTERACTION_STATES.map((state) => [state, hexFromArgb(getStateLayerColor(scheme, role, state))]),
+      ),
+    ]),
+  ) as ThemeStateTokens["colors"];
+
+  return {
+    opacity: { ...STATE_LAYER_OPACITY },
+    colors,
+    elevation: ELEVATION_TINT_OPACITY.map((_opacity, level) => hexFromArgb(getElevationSurface(scheme, level))),
+  };
+};
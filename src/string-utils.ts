@@ -0,0 +1,21 @@
+/**
+ * Converts a color role or custom color name into the kebab-case form used in CSS variable names.
+ *
+ * @param {string} name - Color name (e.g. "brandBlue" or "brand blue")
+ * @returns {string} Kebab-case name (e.g. "brand-blue")
+ */
+export const toTokenName = (name: string): string =>
+  name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[\s_]+/g, "-")
+    .toLowerCase();
+
+/**
+ * Converts a color name into camelCase, as used for JavaScript property names.
+ *
+ * @param {string} name - Color name (e.g. "brand-blue" or "brand blue")
+ * @returns {string} camelCase name (e.g. "brandBlue")
+ */
+export const toCamelCase = (name: string): string =>
+  toTokenName(name).replace(/-+([a-z0-9])/g, (_match, char: string) => char.toUpperCase());
@@ -0,0 +1,199 @@
+import { toTokenName } from "./string-utils";
+import type {
+  MotionConfig,
+  MotionOptions,
+  ShapeConfig,
+  TypescaleName,
+  TypescaleStyle,
+  TypographyConfig,
+  TypographyOptions,
+} from "./types";
+
+// Browser default font size, used to convert pixel values to rem
+const ROOT_FONT_SIZE = 16;
+
+const style = (
+  font: TypescaleStyle["font"],
+  weight: TypescaleStyle["weight"],
+  size: number,
+  lineHeight: number,
+  tracking: number,
+): TypescaleStyle => ({ font, weight, size, lineHeight, tracking });
+
+/**
+ * Material Design 3 typography: Roboto for both typefaces and the baseline type scale.
+ */
+export const DEFAULT_TYPOGRAPHY: TypographyConfig = {
+  brandFont: "Roboto",
+  plainFont: "Roboto",
+  weights: { regular: 400, medium: 500, bold: 700 },
+  scale: {
+    displayLarge: style("brand", "regular", 57, 64, -0.25),
+    displayMedium: style("brand", "regular", 45, 52, 0),
+    displaySmall: style("brand", "regular", 36, 44, 0),
+    headlineLarge: style("brand", "regular", 32, 40, 0),
+    headlineMedium: style("brand", "regular", 28, 36, 0),
+    headlineSmall: style("brand", "regular", 24, 32, 0),
+    titleLarge: style("brand", "regular", 22, 28, 0),
+    titleMedium: style("plain", "medium", 16, 24, 0.15),
+    titleSmall: style("plain", "medium", 14, 20, 0.1),
+    bodyLarge: style("plain", "regular", 16, 24, 0.5),
+    bodyMedium: style("plain", "regular", 14, 20, 0.25),
+    bodySmall: style("plain", "regular", 12, 16, 0.4),
+    labelLarge: style("plain", "medium", 14, 20, 0.1),
+    labelMedium: style("plain", "medium", 12, 16, 0.5),
+    labelSmall: style("plain", "medium", 11, 16, 0.5),
+  },
+};
+
+/**
+ * Material Design 3 corner radii in pixels.
+ */
+export const DEFAULT_SHAPE: ShapeConfig = {
+  none: 0,
+  extraSmall: 4,
+  small: 8,
+  medium: 12,
+  large: 16,
+  extraLarge: 28,
+  full: 9999,
+};
+
+/**
+ * Material Design 3 easing curves and durations.
+ */
+export const DEFAULT_MOTION: MotionConfig = {
+  easing: {
+    standard: "cubic-bezier(0.2, 0, 0, 1)",
+    standardAccelerate: "cubic-bezier(0.3, 0, 1, 1)",
+    standardDecelerate: "cubic-bezier(0, 0, 0, 1)",
+    emphasized: "cubic-bezier(0.2, 0, 0, 1)",
+    emphasizedAccelerate: "cubic-bezier(0.3, 0, 0.8, 0.15)",
+    emphasizedDecelerate: "cubic-bezier(0.05, 0.7, 0.1, 1)",
+    legacy: "cubic-bezier(0.4, 0, 0.2, 1)",
+    linear: "cubic-bezier(0, 0, 1, 1)",
+  },
+  duration: {
+    short1: 50,
+    short2: 100,
+    short3: 150,
+    short4: 200,
+    medium1: 250,
+    medium2: 300,
+    medium3: 350,
+    medium4: 400,
+    long1: 450,
+    long2: 500,
+    long3: 550,
+    long4: 600,
+    extraLong1: 700,
+    extraLong2: 800,
+    extraLong3: 900,
+    extraLong4: 1000,
+  },
+};
+
+/**
+ * Applies typography options to the Material Design 3 defaults.
+ * Type scale entries are merged individually, so an option can change a single property of a style.
+ *
+ * @param {TypographyOptions} [options] - Values replacing the defaults
+ * @returns {TypographyConfig} Complete typography configuration
+ */
+export const resolveTypography = (options: TypographyOptions = {}): TypographyConfig => {
+  const scale = { ...DEFAULT_TYPOGRAPHY.scale };
+  for (const [name, values] of Object.entries(options.scale ?? {}) as [TypescaleName, Partial<TypescaleStyle>][]) {
+    scale[name] = { ...scale[name], ...values };
+  }
+
+  return {
+    brandFont: options.brandFont ?? DEFAULT_TYPOGRAPHY.brandFont,
+    plainFont: options.plainFont ?? DEFAULT_TYPOGRAPHY.plainFont,
+    weights: { ...DEFAULT_TYPOGRAPHY.weights, ...options.weights },
+    scale,
+  };
+};
+
+/**
+ * Applies corner radii to the Material Design 3 defaults.
+ *
+ * @param {Partial<ShapeConfig>} [options] - Corner radii in pixels replacing the defaults
+ * @returns {ShapeConfig} Complete shape configuration
+ */
+export const resolveShape = (options: Partial<ShapeConfig> = {}): ShapeConfig => ({ ...DEFAULT_SHAPE, ...options });
+
+/**
+ * Applies motion options to the Material Design 3 defaults.
+ *
+ * @param {MotionOptions} [options] - Easing curves and durations replacing the defaults
+ * @returns {MotionConfig} Complete motion configuration
+ */
+export const resolveMotion = (options: MotionOptions = {}): MotionConfig => ({
+  easing: { ...DEFAULT_MOTION.easing, ...options.easing },
+  duration: { ...DEFAULT_MOTION.duration, ...options.duration },
+});
+
+/**
+ * Converts a pixel value to rem, relative to the browser default font size.
+ *
+ * @param {number} px - Value in pixels
+ * @returns {string} CSS length in rem
+ */
+const toRem = (px: number): string => `${px / ROOT_FONT_SIZE}rem`;
+
+/**
+ * Generates the typeface and type scale tokens of a typography configuration.
+ * Styles reference the typeface and weight tokens, so changing a typeface only touches one token.
+ *
+ * @param {TypographyConfig} typography - Typography configuration
+ * @returns {Map<string, string>} Map of CSS variable names to values
+ */
+export const getTypographyTokens = (typography: TypographyConfig): Map<string, string> => {
+  const tokens = new Map<string, string>();
+
+  tokens.set("--md-ref-typeface-brand", typography.brandFont);
+  tokens.set("--md-ref-typeface-plain", typography.plainFont);
+  for (const [weight, value] of Object.entries(typography.weights)) {
+    tokens.set(`--md-ref-typeface-weight-${weight}`, String(value));
+  }
+
+  for (const [name, values] of Object.entries(typography.scale)) {
+    const prefix = `--md-sys-typescale-${toTokenName(name)}`;
+    tokens.set(`${prefix}-font`, `var(--md-ref-typeface-${values.font})`);
+    tokens.set(`${prefix}-weight`, `var(--md-ref-typeface-weight-${values.weight})`);
+    tokens.set(`${prefix}-size`, toRem(values.size));
+    tokens.set(`${prefix}-line-height`, toRem(values.lineHeight));
+    tokens.set(`${prefix}-tracking`, toRem(values.tracking));
+  }
+
+  return tokens;
+};
+
+/**
+ * Generates the corner tokens of a shape configuration.
+ *
+ * @param {ShapeConfig} shape - Shape configuration
+ * @returns {Map<string, string>} Map of CSS variable names to values
+ */
+export const getShapeTokens = (shape: ShapeConfig): Map<string, string> =>
+  new Map(
+    Object.entries(shape).map(([corner, radius]) => [`--md-sys-shape-corner-${toTokenName(corner)}`, `${radius}px`]),
+  );
+
+/**
+ * Generates the easing and duration tokens of a motion configuration.
+ *
+ * @param {MotionConfig} motion - Motion configuration
+ * @returns {Map<string, string>} Map of CSS variable names to values
+ */
+export const getMotionTokens = (motion: MotionConfig): Map<string, string> =>
+  new Map([
+    ...Object.entries(motion.easing).map(([name, easing]): [string, string] => [
+      `--md-sys-motion-easing-${toTokenName(name)}`,
+      easing,
+    ]),
+    ...Object.entries(motion.duration).map(([name, duration]): [string, string] => [
+      `--md-sys-motion-duration-${toTokenName(name)}`,
+      `${duration}ms`,
+    ]),
+  ]);
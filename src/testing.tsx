@@ -0,0 +1,344 @@
+import React, { type ReactElement, type ReactNode, useMemo } from "react";
+import { render, type RenderOptions, type RenderResult } from "@testing-library/react";
+import { argbFromHex, argbFromRgb, hexFromArgb } from "@material/material-color-utilities";
+import { MaterialThemeProvider } from "./material-theme-provider";
+import { MaterialThemeContext } from "./material-theme-context";
+import { createMaterialTheme, getPaletteTone, getThemeTokens, isHexColor } from "./theme-utils";
+import { harmonizeColor } from "./harmonize";
+import { DEFAULT_MOTION, DEFAULT_SHAPE, DEFAULT_TYPOGRAPHY } from "./system-tokens";
+import { getContrastRatio, REQUIRED_RATIOS } from "./contrast-audit";
+import {
+  type MaterialTheme,
+  type MaterialThemeContextType,
+  type MaterialThemeProviderProps,
+  type ResolvedColorMode,
+  type ThemeConfig,
+  type ThemeTokenOptions,
+  Variant,
+} from "./types";
+
+/**
+ * Preset themes of MockMaterialThemeProvider. Each preset always generates the same colors.
+ */
+export const MOCK_THEMES = {
+  baseline: { sourceColor: "#6750A4", variant: Variant.TONAL_SPOT },
+  blue: { sourceColor: "#0061A4", variant: Variant.TONAL_SPOT },
+  green: { sourceColor: "#386A20", variant: Variant.TONAL_SPOT },
+  red: { sourceColor: "#B3261E", variant: Variant.TONAL_SPOT },
+  monochrome: { sourceColor: "#6750A4", variant: Variant.MONOCHROME },
+  highContrast: { sourceColor: "#6750A4", variant: Variant.TONAL_SPOT, contrastLevel: 1 },
+} satisfies Record<string, ThemeConfig>;
+
+/**
+ * Name of a preset theme of MockMaterialThemeProvider.
+ */
+export type MockThemeName = keyof typeof MOCK_THEMES;
+
+/**
+ * WCAG 2.x conformance level checked by `toMeetContrast`.
+ */
+export type ContrastConformance = "AA" | "AAA";
+
+const DEFAULT_PREFIX = "--md-sys-color-";
+
+// Preset themes are generated once and shared by every test
+const mockThemes = new Map<MockThemeName, MaterialTheme>();
+
+const noop = () => {};
+
+// The mock applies the default typography, shape and motion tokens along with the colors
+const MOCK_TOKEN_OPTIONS: ThemeTokenOptions = { typography: true, shape: true, motion: true };
+
+/**
+ * Returns the generated theme of a preset.
+ *
+ * @param {MockThemeName} name - Preset name
+ * @returns {MaterialTheme} Theme of the preset
+ */
+export const getMockTheme = (name: MockThemeName): MaterialTheme => {
+  let theme = mockThemes.get(name);
+  if (!theme) {
+    const { sourceColor, variant, contrastLevel = 0 } = MOCK_THEMES[name] as ThemeConfig;
+    theme = createMaterialTheme(argbFromHex(sourceColor), variant, contrastLevel);
+    mockThemes.set(name, theme);
+  }
+
+  return theme;
+};
+
+/**
+ * Props interface for the MockMaterialThemeProvider component.
+ *
+ * @interface MockMaterialThemeProviderProps
+ * @property {ReactNode} children - Child components to be wrapped by the provider
+ * @property {MockThemeName} [theme] - Preset theme, defaults to "baseline"
+ * @property {ResolvedColorMode} [mode] - Color scheme mode, defaults to "light"
+ * @property {Partial<MaterialThemeContextType>} [value] - Context values replacing the mocked ones, e.g. spies for
+ * the setters
+ */
+export interface MockMaterialThemeProviderProps {
+  children: ReactNode;
+  theme?: MockThemeName;
+  mode?: ResolvedColorMode;
+  value?: Partial<MaterialThemeContextType>;
+}
+
+/**
+ * Provider supplying a fixed preset theme to components under test.
+ * Setters do nothing unless replaced through `value`, so the theme only changes with the props. The tokens of the
+ * preset, with the default typography, shape and motion, are set on a wrapper element instead of the document root.
+ *
+ * @component
+ * @param {MockMaterialThemeProviderProps} props - Component props
+ * @returns {JSX.Element} Provider with a wrapper element carrying the theme tokens
+ *
+ * @example
+ * ```tsx
+ * const setSourceColor = jest.fn();
+ * render(
+ *   <MockMaterialThemeProvider theme="blue" mode="dark" value={{ setSourceColor }}>
+ *     <ColorPicker />
+ *   </MockMaterialThemeProvider>,
+ * );
+ * ```
+ */
+export function MockMaterialThemeProvider({
+  children,
+  theme = "baseline",
+  mode = "light",
+  value,
+}: MockMaterialThemeProviderProps) {
+  const materialTheme = getMockTheme(theme);
+  const dark = mode === "dark";
+
+  const context = useMemo<MaterialThemeContextType>(
+    () => ({
+      materialTheme,
+      setSourceColor: noop,
+      currentScheme: dark ? materialTheme.schemes.dark : materialTheme.schemes.light,
+      variant: materialTheme.variant,
+      setVariant: noop,
+      mode,
+      resolvedMode: mode,
+      setMode: noop,
+      contrastLevel: materialTheme.schemes.light.contrastLevel,
+      setContrastLevel: noop,
+      setSourceImage: async () => [],
+      getTone: (palette, tone) => getPaletteTone(materialTheme, palette, tone),
+      activeTheme: null,
+      setActiveTheme: noop,
+      registerTheme: noop,
+      prefix: DEFAULT_PREFIX,
+      harmonize: (color) => harmonizeColor(color, materialTheme.source),
+      typography: DEFAULT_TYPOGRAPHY,
+      shape: DEFAULT_SHAPE,
+      motion: DEFAULT_MOTION,
+      ...value,
+    }),
+    [materialTheme, dark, mode, value],
+  );
+  const style = useMemo(
+    () => Object.fromEntries(getThemeTokens(materialTheme, dark, MOCK_TOKEN_OPTIONS)),
+    [materialTheme, dark],
+  );
+
+  return (
+    <MaterialThemeContext.Provider value={context}>
+      <div data-material-theme-scope="" style={{ display: "contents", ...style }}>
+        {children}
+      </div>
+    </MaterialThemeContext.Provider>
+  );
+}
+
+/**
+ * Options of `renderWithMaterialTheme`.
+ *
+ * @interface MaterialThemeRenderOptions
+ * @property {Partial<MaterialThemeProviderProps>} [providerProps] - Props of the MaterialThemeProvider wrapping the UI
+ */
+export interface MaterialThemeRenderOptions extends Omit<RenderOptions, "wrapper"> {
+  providerProps?: Partial<MaterialThemeProviderProps>;
+}
+
+/**
+ * Renders UI inside a MaterialThemeProvider with Testing Library.
+ *
+ * @param {ReactElement} ui - Element to render
+ * @param {MaterialThemeRenderOptions} [options] - Provider props and Testing Library render options
+ * @returns {RenderResult} Testing Library render result
+ *
+ * @example
+ * ```tsx
+ * renderWithMaterialTheme(<Button />, { providerProps: { defaultSourceColor: "#0061A4", mode: "dark" } });
+ * expect(document.documentElement).toHaveThemeToken("--md-sys-color-primary");
+ * ```
+ */
+export const renderWithMaterialTheme = (
+  ui: ReactElement,
+  { providerProps, ...options }: MaterialThemeRenderOptions = {},
+): RenderResult =>
+  render(ui, {
+    ...options,
+    wrapper: ({ children }) => <MaterialThemeProvider {...providerProps}>{children}</MaterialThemeProvider>,
+  });
+
+/**
+ * Reads the custom properties set on an element, such as the tokens applied by a provider.
+ *
+ * @param {HTMLElement} [element=document.documentElement] - Element the tokens are applied to
+ * @returns {Record<string, string>} Token values keyed by CSS variable name
+ */
+export const getAppliedTokens = (element: HTMLElement = document.documentElement): Record<string, string> => {
+  const tokens: Record<string, string> = {};
+
+  for (let i = 0; i < element.style.length; i++) {
+    const name = element.style[i];
+    if (name.startsWith("--")) {
+      tokens[name] = element.style.getPropertyValue(name).trim();
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Resolves a token for an element the way the browser would: from the element itself or its nearest ancestor
+ * setting it. jsdom does not cascade custom properties, so the inline styles are walked instead.
+ *
+ * @param {Element} element - Element using the token
+ * @param {string} name - CSS variable name
+ * @returns {string | undefined} Token value, or undefined when no ancestor sets it
+ */
+const resolveToken = (element: Element, name: string): string | undefined => {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const value = (current as HTMLElement).style?.getPropertyValue(name).trim();
+    if (value) return value;
+  }
+
+  return undefined;
+};
+
+/**
+ * Resolves a CSS color value to hex, following `var()` references.
+ *
+ * @param {Element} element - Element the value applies to
+ * @param {string} value - Hex, `rgb()` or `var()` value
+ * @returns {string | undefined} Color in hex format, or undefined when it cannot be resolved
+ */
+const resolveColor = (element: Element, value: string): string | undefined => {
+  const reference = /^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/.exec(value);
+  if (reference) {
+    const token = resolveToken(element, reference[1]) ?? reference[2];
+    return token === undefined ? undefined : resolveColor(element, token.trim());
+  }
+
+  const rgb = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/.exec(value);
+  if (rgb) return hexFromArgb(argbFromRgb(Number(rgb[1]), Number(rgb[2]), Number(rgb[3])));
+
+  return isHexColor(value) ? hexFromArgb(argbFromHex(value)) : undefined;
+};
+
+/**
+ * Finds the inline value of a style property on an element or its nearest ancestor setting it.
+ *
+ * @param {Element} element - Element to start from
+ * @param {"color" | "backgroundColor"} property - Style property
+ * @returns {[Element, string] | undefined} Element setting the value and the value
+ */
+const findStyle = (element: Element, property: "color" | "backgroundColor"): [Element, string] | undefined => {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const value = (current as HTMLElement).style?.[property];
+    if (value && value !== "transparent") return [current, value];
+  }
+
+  return undefined;
+};
+
+type MatcherResult = { pass: boolean; message: () => string };
+
+/**
+ * Jest matchers for theme tokens and contrast. Register them once, e.g. in the Jest setup file:
+ *
+ * ```ts
+ * import { materialThemeMatchers } from "react-material-theme-provider/testing";
+ * expect.extend(materialThemeMatchers);
+ * ```
+ */
+export const materialThemeMatchers = {
+  /**
+   * Checks that an element has a token, set on itself or inherited from an ancestor, optionally with a given value.
+   * Hex values are compared case-insensitively.
+   */
+  toHaveThemeToken(received: Element, name: string, expected?: string): MatcherResult {
+    const value = resolveToken(received, name);
+    const normalize = (color: string) => (isHexColor(color) ? color.toLowerCase() : color);
+    const pass = value !== undefined && (expected === undefined || normalize(value) === normalize(expected));
+
+    return {
+      pass,
+      message: () =>
+        value === undefined
+          ? `Expected element to have theme token ${name}, but it is not set`
+          : pass
+            ? `Expected element not to have theme token ${name}${expected === undefined ? "" : ` = ${expected}`}`
+            : `Expected theme token ${name} to be ${expected}, but it is ${value}`,
+    };
+  },
+
+  /**
+   * Checks that a foreground/background pair meets a WCAG 2.x conformance level. Accepts a pair of hex colors, or an
+   * element whose inline `color` and `background-color` are looked up on itself and its ancestors. jsdom drops
+   * `var()` colors from inline styles, so check token pairs by reading their values with `getAppliedTokens`.
+   */
+  toMeetContrast(
+    received: Element | [string, string],
+    level: ContrastConformance = "AA",
+    kind: "text" | "graphic" = "text",
+  ): MatcherResult {
+    let foreground: string | undefined;
+    let background: string | undefined;
+    if (Array.isArray(received)) {
+      [foreground, background] = received;
+    } else {
+      const color = findStyle(received, "color");
+      const backgroundColor = findStyle(received, "backgroundColor");
+      foreground = color && resolveColor(...color);
+      background = backgroundColor && resolveColor(...backgroundColor);
+    }
+
+    if (!foreground || !background || !isHexColor(foreground) || !isHexColor(background)) {
+      return {
+        pass: false,
+        message: () => `Expected a foreground and background color, but got ${foreground} on ${background}`,
+      };
+    }
+
+    const required = REQUIRED_RATIOS[kind][level === "AA" ? "aa" : "aaa"];
+    const ratio = getContrastRatio(foreground, background);
+    const pass = ratio >= required;
+
+    return {
+      pass,
+      message: () =>
+        `Expected ${foreground} on ${background} ${pass ? "not " : ""}to meet WCAG ${level} for ${kind} ` +
+        `(${required}:1), but the contrast is ${ratio.toFixed(2)}:1`,
+    };
+  },
+};
+
+/**
+ * Matchers added by `materialThemeMatchers`. They are declared on the global `jest` namespace; with `@jest/globals`,
+ * add them to the `Matchers` interface of `@jest/expect` in a declaration file.
+ */
+export interface MaterialThemeMatchers<R> {
+  toHaveThemeToken(name: string, expected?: string): R;
+  toMeetContrast(level?: ContrastConformance, kind?: "text" | "graphic"): R;
+}
+
+declare global {
+  namespace jest {
+    // biome-ignore lint/complexity/noBannedTypes: type parameters must match the declaration being merged
+    interface Matchers<R = void, T = {}> extends MaterialThemeMatchers<R> {}
+  }
+}
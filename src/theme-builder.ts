@@ -0,0 +1,345 @@
+import { argbFromHex, DynamicScheme, hexFromArgb, type TonalPalette } from "@material/material-color-utilities";
+import {
+  createMaterialTheme,
+  customColorsFromHex,
+  isHexColor,
+  overrideSchemeColors,
+  seedColorsFromHex,
+} from "./theme-utils";
+import {
+  COLOR_ROLES,
+  type ColorOverrides,
+  type ColorRole,
+  type HexCustomColor,
+  type HexSeedColors,
+  type MaterialTheme,
+  type SeedPaletteName,
+  type ThemeBuilderImport,
+  type ThemeBuilderImportOptions,
+  type ThemeBuilderJson,
+  type ThemeBuilderMismatch,
+  type ThemeBuilderSchemeName,
+  Variant,
+} from "./types";
+
+// Contrast levels exported by Theme Builder, with the suffix of their scheme names
+const CONTRAST_SCHEMES: Array<[number, string]> = [
+  [0, ""],
+  [0.5, "-medium-contrast"],
+  [1, "-high-contrast"],
+];
+
+const SEED_PALETTES: SeedPaletteName[] = ["primary", "secondary", "tertiary", "error", "neutral", "neutralVariant"];
+
+// Order of the roles in the schemes of a Theme Builder export
+const THEME_BUILDER_ROLES: ColorRole[] = [
+  "primary",
+  "surfaceTint",
+  "onPrimary",
+  "primaryContainer",
+  "onPrimaryContainer",
+  "secondary",
+  "onSecondary",
+  "secondaryContainer",
+  "onSecondaryContainer",
+  "tertiary",
+  "onTertiary",
+  "tertiaryContainer",
+  "onTertiaryContainer",
+  "error",
+  "onError",
+  "errorContainer",
+  "onErrorContainer",
+  "background",
+  "onBackground",
+  "surface",
+  "onSurface",
+  "surfaceVariant",
+  "onSurfaceVariant",
+  "outline",
+  "outlineVariant",
+  "shadow",
+  "scrim",
+  "inverseSurface",
+  "inverseOnSurface",
+  "inversePrimary",
+  "primaryFixed",
+  "onPrimaryFixed",
+  "primaryFixedDim",
+  "onPrimaryFixedVariant",
+  "secondaryFixed",
+  "onSecondaryFixed",
+  "secondaryFixedDim",
+  "onSecondaryFixedVariant",
+  "tertiaryFixed",
+  "onTertiaryFixed",
+  "tertiaryFixedDim",
+  "onTertiaryFixedVariant",
+  "surfaceDim",
+  "surfaceBright",
+  "surfaceContainerLowest",
+  "surfaceContainerLow",
+  "surfaceContainer",
+  "surfaceContainerHigh",
+  "surfaceContainerHighest",
+];
+
+// Tones of the palettes in a Theme Builder export
+const THEME_BUILDER_TONES = [0, 5, 10, 15, 20, 25, 30, 35, 40, 50, 60, 70, 80, 90, 95, 98, 99, 100];
+
+// Theme Builder writes hex colors in upper case
+const toHex = (argb: number): string => hexFromArgb(argb).toUpperCase();
+
+/**
+ * Returns the names of the light and dark schemes exported for a contrast level.
+ *
+ * @param {number} contrastLevel - Contrast level (0, 0.5 or 1)
+ * @returns {[ThemeBuilderSchemeName, ThemeBuilderSchemeName] | undefined} Light and dark scheme names, or undefined
+ * when Theme Builder does not export the contrast level
+ */
+const getSchemeNames = (contrastLevel: number): [ThemeBuilderSchemeName, ThemeBuilderSchemeName] | undefined => {
+  const entry = CONTRAST_SCHEMES.find(([level]) => level === contrastLevel);
+  if (!entry) return undefined;
+
+  return [`light${entry[1]}`, `dark${entry[1]}`] as [ThemeBuilderSchemeName, ThemeBuilderSchemeName];
+};
+
+/**
+ * Creates a scheme with the palettes and variant of another scheme at a different contrast level.
+ *
+ * @param {DynamicScheme} scheme - Color scheme
+ * @param {number} contrastLevel - Contrast level of the new scheme
+ * @returns {DynamicScheme} Color scheme at the given contrast level
+ */
+const withContrastLevel = (scheme: DynamicScheme, contrastLevel: number): DynamicScheme => {
+  const result = new DynamicScheme({
+    sourceColorArgb: scheme.sourceColorArgb,
+    variant: scheme.variant,
+    contrastLevel,
+    isDark: scheme.isDark,
+    primaryPalette: scheme.primaryPalette,
+    secondaryPalette: scheme.secondaryPalette,
+    tertiaryPalette: scheme.tertiaryPalette,
+    neutralPalette: scheme.neutralPalette,
+    neutralVariantPalette: scheme.neutralVariantPalette,
+  });
+  result.errorPalette = scheme.errorPalette;
+
+  return result;
+};
+
+/**
+ * Reads the role values of a scheme as hex colors, in the order Theme Builder writes them.
+ *
+ * @param {DynamicScheme} scheme - Color scheme
+ * @returns {Record<string, string>} Hex value of every color role
+ */
+const getSchemeColors = (scheme: DynamicScheme): Record<string, string> =>
+  Object.fromEntries(THEME_BUILDER_ROLES.map((role) => [role, toHex(scheme[role])]));
+
+/**
+ * Lists the tones of a palette as exported by Theme Builder.
+ *
+ * @param {TonalPalette} palette - Tonal palette
+ * @returns {Record<string, string>} Hex values keyed by tone
+ */
+const getPaletteTones = (palette: TonalPalette): Record<string, string> =>
+  Object.fromEntries(THEME_BUILDER_TONES.map((tone) => [tone, toHex(palette.tone(tone))]));
+
+/**
+ * Compares the imported values of a scheme with a generated scheme.
+ * Invalid imported values are reported and skipped.
+ *
+ * @param {ThemeBuilderSchemeName} name - Name of the imported scheme
+ * @param {Record<string, string>} imported - Imported role values
+ * @param {DynamicScheme} generated - Scheme generated for the same configuration
+ * @returns {ThemeBuilderMismatch[]} Roles whose values differ
+ */
+const compareScheme = (
+  name: ThemeBuilderSchemeName,
+  imported: Partial<Record<string, string>>,
+  generated: DynamicScheme,
+): ThemeBuilderMismatch[] => {
+  const mismatches: ThemeBuilderMismatch[] = [];
+
+  for (const role of COLOR_ROLES) {
+    const value = imported[role];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !isHexColor(value)) {
+      console.error(`Invalid hex value "${value}" for color role "${role}" in the ${name} scheme`);
+      continue;
+    }
+
+    const generatedValue = toHex(generated[role]);
+    if (toHex(argbFromHex(value)) !== generatedValue) {
+      mismatches.push({ scheme: name, role, imported: value, generated: generatedValue });
+    }
+  }
+
+  return mismatches;
+};
+
+/**
+ * Formats a mismatch between an imported and a generated role value as a readable message.
+ *
+ * @param {ThemeBuilderMismatch} mismatch - Mismatching role
+ * @returns {string} Message naming the scheme, role and both values
+ */
+export const formatThemeBuilderMismatch = (mismatch: ThemeBuilderMismatch): string =>
+  `Imported ${mismatch.role} in the ${mismatch.scheme} scheme is ${mismatch.imported}, ` +
+  `but ${mismatch.generated} is generated for the same configuration`;
+
+/**
+ * Imports the `material-theme.json` file exported by Material Theme Builder.
+ * The theme is generated from the seed, core and extended colors, then every role whose imported value differs from
+ * the generated one is overridden, so the schemes match the file exactly. The differing roles of every scheme in the
+ * file are listed in `mismatches`; they usually mean the file was edited or created with another version of the
+ * color algorithm.
+ *
+ * @param {string | ThemeBuilderJson} input - File contents, as a string or parsed object
+ * @param {ThemeBuilderImportOptions} [options] - Variant and contrast level to import
+ * @returns {ThemeBuilderImport} Imported theme and its configuration
+ * @throws {Error} When the input is not a valid Theme Builder export or the contrast level is not exported
+ *
+ * @example
+ * ```ts
+ * import json from "./material-theme.json";
+ *
+ * const imported = parseThemeBuilderJson(json);
+ * imported.mismatches.forEach((mismatch) => console.warn(formatThemeBuilderMismatch(mismatch)));
+ * ```
+ */
+export const parseThemeBuilderJson = (
+  input: string | ThemeBuilderJson,
+  options: ThemeBuilderImportOptions = {},
+): ThemeBuilderImport => {
+  const { variant = Variant.TONAL_SPOT, contrastLevel = 0 } = options;
+
+  let json: ThemeBuilderJson;
+  try {
+    json = typeof input === "string" ? JSON.parse(input) : input;
+  } catch (error) {
+    throw new Error(`Invalid Material Theme Builder JSON: ${(error as Error).message}`);
+  }
+  if (typeof json !== "object" || json === null) {
+    throw new Error("Invalid Material Theme Builder JSON: expected an object");
+  }
+
+  // The seed is the source color; the primary core color only differs from it when it was changed in Theme Builder
+  const sourceColor = json.seed;
+  if (typeof sourceColor !== "string" || !isHexColor(sourceColor)) {
+    throw new Error(`Invalid Material Theme Builder JSON: seed color "${sourceColor}" is not a hex color`);
+  }
+
+  if (!getSchemeNames(contrastLevel)) {
+    throw new Error(`Material Theme Builder exports no schemes for contrast level ${contrastLevel}`);
+  }
+
+  const seedColors: HexSeedColors = {};
+  for (const palette of SEED_PALETTES) {
+    const value = json.coreColors?.[palette];
+    if (value === undefined) continue;
+    if (palette === "primary" && isHexColor(value) && argbFromHex(value) === argbFromHex(sourceColor)) continue;
+    seedColors[palette] = value;
+  }
+
+  const customColors: HexCustomColor[] = (json.extendedColors ?? []).map((color) => ({
+    name: color.name,
+    value: color.color,
+    blend: color.harmonized ?? true,
+  }));
+
+  const source = argbFromHex(sourceColor);
+  const customColorsArgb = customColorsFromHex(customColors);
+  const seedColorsArgb = seedColorsFromHex(seedColors);
+  const schemes = json.schemes ?? {};
+
+  // Compare every exported scheme with the scheme generated at its contrast level
+  let theme: MaterialTheme | undefined;
+  const mismatches: ThemeBuilderMismatch[] = [];
+  for (const [level] of CONTRAST_SCHEMES) {
+    const [lightName, darkName] = getSchemeNames(level) as [ThemeBuilderSchemeName, ThemeBuilderSchemeName];
+    if (level !== contrastLevel && !schemes[lightName] && !schemes[darkName]) continue;
+
+    const generated = createMaterialTheme(source, variant, level, customColorsArgb, seedColorsArgb);
+    const lightMismatches = schemes[lightName]
+      ? compareScheme(lightName, schemes[lightName], generated.schemes.light)
+      : [];
+    const darkMismatches = schemes[darkName] ? compareScheme(darkName, schemes[darkName], generated.schemes.dark) : [];
+    mismatches.push(...lightMismatches, ...darkMismatches);
+
+    if (level === contrastLevel) {
+      const toOverrides = (list: ThemeBuilderMismatch[]): ColorOverrides =>
+        Object.fromEntries(list.map((mismatch) => [mismatch.role, mismatch.imported]));
+
+      theme = {
+        ...generated,
+        schemes: {
+          light: overrideSchemeColors(generated.schemes.light, toOverrides(lightMismatches)),
+          dark: overrideSchemeColors(generated.schemes.dark, toOverrides(darkMismatches)),
+        },
+      };
+    }
+  }
+
+  return {
+    sourceColor,
+    seedColors,
+    customColors,
+    contrastLevel,
+    theme: theme as MaterialTheme,
+    mismatches,
+  };
+};
+
+/**
+ * Exports a theme in the `material-theme.json` format of Material Theme Builder.
+ * The schemes at the theme's own contrast level are exported as they are, including overridden roles; the others are
+ * generated from the theme's palettes and variant.
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @param {Object} [options] - Export options
+ * @param {HexSeedColors} [options.seedColors] - Seed colors the theme was created with, exported as core colors
+ * @param {string} [options.description] - Description written to the file
+ * @returns {string} Theme Builder file contents
+ */
+export const toThemeBuilderJson = (
+  theme: MaterialTheme,
+  options: { seedColors?: HexSeedColors; description?: string } = {},
+): string => {
+  const seed = toHex(theme.source);
+  const { light, dark } = theme.schemes;
+
+  // Theme Builder lists the light schemes before the dark ones
+  const schemes: ThemeBuilderJson["schemes"] = {};
+  for (const scheme of [light, dark]) {
+    for (const [level] of CONTRAST_SCHEMES) {
+      const [lightName, darkName] = getSchemeNames(level) as [ThemeBuilderSchemeName, ThemeBuilderSchemeName];
+      schemes[scheme.isDark ? darkName : lightName] = getSchemeColors(
+        level === scheme.contrastLevel ? scheme : withContrastLevel(scheme, level),
+      );
+    }
+  }
+
+  const json: ThemeBuilderJson = {
+    description: options.description ?? "",
+    seed,
+    coreColors: { primary: seed, ...options.seedColors },
+    extendedColors: theme.customColors.map((group) => ({
+      name: group.color.name,
+      color: toHex(group.color.value),
+      description: "",
+      harmonized: group.color.blend,
+    })),
+    schemes,
+    palettes: {
+      primary: getPaletteTones(light.primaryPalette),
+      secondary: getPaletteTones(light.secondaryPalette),
+      tertiary: getPaletteTones(light.tertiaryPalette),
+      neutral: getPaletteTones(light.neutralPalette),
+      "neutral-variant": getPaletteTones(light.neutralVariantPalette),
+    },
+  };
+
+  return JSON.stringify(json, null, 2);
+};
@@ -0,0 +1,475 @@
+import { argbFromHex, hexFromArgb } from "@material/material-color-utilities";
+import {
+  type ColorMode,
+  type ColorOverrides,
+  ContrastLevel,
+  type ImageSource,
+  type MaterialTheme,
+  type PersistedThemeState,
+  type ThemeBuilderImport,
+  type ThemeConfig,
+  type ThemeController,
+  type ThemeControllerOptions,
+  type ThemeControllerSettings,
+  type ThemeControllerState,
+  type ThemeVariant,
+  Variant,
+} from "./types";
+import {
+  createMaterialTheme,
+  customColorsFromHex,
+  getThemeTokens,
+  isHexColor,
+  overrideThemeColors,
+  seedColorsFromHex,
+} from "./theme-utils";
+import { sourceColorFromImage } from "./image-utils";
+import { parseThemeState, serializeThemeState } from "./persistence";
+import { animateTokens } from "./theme-transition";
+import { createLruCache } from "./lru-cache";
+import { getVariantRegistryVersion } from "./variants";
+
+const DEFAULT_SOURCE_COLOR = "#6D509F";
+const DEFAULT_STORAGE_KEY = "material-theme";
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+const MORE_CONTRAST_QUERY = "(prefers-contrast: more)";
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+// Generated themes shared by all controllers, so switching back to a recent theme does not recompute its schemes
+const THEME_CACHE_SIZE = 32;
+const themeCache = createLruCache<MaterialTheme>(THEME_CACHE_SIZE);
+
+// Choices made through the controller's setters, as opposed to the options it is configured with
+interface ThemeChoices {
+  sourceColor: string;
+  variant: ThemeVariant;
+  mode: ColorMode;
+  contrastLevel: number;
+  activeTheme: string | null;
+}
+
+/**
+ * Reads the current match state of a media query, returning false where `matchMedia` is unavailable (e.g. SSR).
+ *
+ * @param {string} query - Media query to evaluate
+ * @returns {boolean} Whether the media query currently matches
+ */
+const matchesMedia = (query: string): boolean =>
+  typeof window !== "undefined" && typeof window.matchMedia === "function" && window.matchMedia(query).matches;
+
+/**
+ * Calls a function whenever the match state of a media query changes.
+ *
+ * @param {string} query - Media query to watch
+ * @param {() => void} onChange - Called on every change
+ * @returns {() => void} Function removing the listener
+ */
+const watchMedia = (query: string, onChange: () => void): (() => void) => {
+  if (typeof window === "undefined" || typeof window.matchMedia !== "function") return () => {};
+
+  const mediaQueryList = window.matchMedia(query);
+  mediaQueryList.addEventListener("change", onChange);
+  return () => mediaQueryList.removeEventListener("change", onChange);
+};
+
+/**
+ * Checks whether two state snapshots hold the same values.
+ *
+ * @param {ThemeControllerState} a - State snapshot
+ * @param {ThemeControllerState} b - State snapshot
+ * @returns {boolean} True if every value is identical
+ */
+const isSameState = (a: ThemeControllerState, b: ThemeControllerState): boolean =>
+  (Object.keys(a) as Array<keyof ThemeControllerState>).every((key) => Object.is(a[key], b[key]));
+
+/**
+ * Checks whether two token maps hold the same values.
+ *
+ * @param {Map<string, string>} a - Tokens
+ * @param {Map<string, string>} b - Tokens
+ * @returns {boolean} True if both contain the same names and values
+ */
+const isSameTokens = (a: Map<string, string>, b: Map<string, string>): boolean =>
+  a.size === b.size && [...a].every(([key, value]) => b.get(key) === value);
+
+/**
+ * Looks up a named theme among the own properties of a theme record.
+ *
+ * @param {Record<string, ThemeConfig>} themes - Named themes
+ * @param {string} name - Theme name
+ * @returns {ThemeConfig | undefined} Theme config, or undefined if there is no theme with that name
+ */
+const findTheme = (themes: Record<string, ThemeConfig>, name: string): ThemeConfig | undefined =>
+  Object.prototype.hasOwnProperty.call(themes, name) ? themes[name] : undefined;
+
+/**
+ * Generates a theme, reusing a cached one generated from the same options.
+ *
+ * @param {string} key - Cache key covering every option
+ * @param {Required<ThemeConfig>} config - Source color, variant, contrast level, custom colors and seed colors
+ * @param {ColorOverrides} overrides - Role colors replacing the generated values
+ * @returns {MaterialTheme} Generated theme
+ * @throws {Error} When the source color is invalid
+ */
+const generateTheme = (key: string, config: Required<ThemeConfig>, overrides: ColorOverrides): MaterialTheme => {
+  const cached = themeCache.get(key);
+  if (cached) return cached;
+
+  let theme = createMaterialTheme(
+    argbFromHex(config.sourceColor),
+    config.variant,
+    config.contrastLevel,
+    customColorsFromHex(config.customColors),
+    seedColorsFromHex(config.seedColors),
+  );
+  if (Object.keys(overrides).length > 0) {
+    theme = overrideThemeColors(theme, overrides);
+  }
+  themeCache.set(key, theme);
+
+  return theme;
+};
+
+/**
+ * Creates a theme controller, which holds the theme state outside of any UI framework and applies it as CSS
+ * variables. `MaterialThemeProvider` is built on it, so plain scripts and other frameworks get the same themes.
+ * Theme choices restored from `persistence` take precedence over the initial values.
+ *
+ * @param {ThemeControllerOptions} [options] - Initial values and options
+ * @returns {ThemeController} Theme controller
+ *
+ * @example
+ * ```ts
+ * const controller = createThemeController({ source: "#6D509F", mode: "system" });
+ * controller.subscribe(() => controller.apply());
+ * controller.apply();
+ *
+ * picker.addEventListener("input", () => controller.setSourceColor(picker.value));
+ * ```
+ */
+export const createThemeController = (options: ThemeControllerOptions = {}): ThemeController => {
+  const {
+    source = DEFAULT_SOURCE_COLOR,
+    variant = Variant.FIDELITY,
+    contrast = ContrastLevel.STANDARD,
+    mode = "light",
+    activeTheme = null,
+    persistence,
+    ...initialSettings
+  } = options;
+  let settings: ThemeControllerSettings = initialSettings;
+
+  const storage = persistence?.storage;
+  const storageKey = persistence?.key ?? DEFAULT_STORAGE_KEY;
+  const persisted = storage ? parseThemeState(storage.getItem(storageKey)) : null;
+
+  let choices: ThemeChoices = {
+    sourceColor: persisted?.sourceColor ?? source,
+    variant: persisted?.variant ?? variant,
+    mode: persisted?.mode ?? mode,
+    contrastLevel: persisted?.contrastLevel ?? contrast,
+    activeTheme,
+  };
+  // Only choices made through the setters are persisted, so returning users still get changed initial values
+  let saved: PersistedThemeState = persisted ?? {};
+  let registeredThemes: Record<string, ThemeConfig> = {};
+
+  const listeners = new Set<() => void>();
+  const mediaListeners = new Map<string, () => void>();
+  let stopStorageSync: (() => void) | undefined;
+
+  // Inputs of the current theme, so it is only generated again when they change
+  let theme: MaterialTheme | null = null;
+  let themeInputs: { key: string; importedTheme: ThemeBuilderImport | undefined } | null = null;
+  let unknownTheme: string | null = null;
+
+  // Tokens on the target element: the values shown, which may be a transition frame, and the values transitioned to
+  let applied: { element: HTMLElement; shown: Map<string, string>; tokens: Map<string, string> } | null = null;
+  let cancelTransition: (() => void) | undefined;
+  // Tokens of the last applied state and settings, so applying again without changes does not compute them
+  let computedTokens: {
+    state: ThemeControllerState;
+    settings: ThemeControllerSettings;
+    tokens: Map<string, string>;
+  } | null = null;
+
+  const computeState = (): ThemeControllerState => {
+    const { themes = {}, systemContrast, customColors = [], seedColors = {}, overrides = {}, importedTheme } = settings;
+
+    // Named themes take precedence over the controller's own values for the options they set. Only own properties are
+    // looked up, so names like "constructor" are not resolved from the object prototype.
+    const namedTheme =
+      choices.activeTheme === null
+        ? undefined
+        : (findTheme(registeredThemes, choices.activeTheme) ?? findTheme(themes, choices.activeTheme));
+    const missingTheme = namedTheme ? null : choices.activeTheme;
+    if (missingTheme !== null && missingTheme !== unknownTheme) {
+      console.error(`Unknown theme "${missingTheme}"`);
+    }
+    unknownTheme = missingTheme;
+
+    const themeSourceColor = namedTheme?.sourceColor ?? choices.sourceColor;
+    const themeVariant = namedTheme?.variant ?? choices.variant;
+    const themeCustomColors = namedTheme?.customColors ?? customColors;
+    const themeSeedColors = namedTheme?.seedColors ?? seedColors;
+
+    // Resolve the "system" mode against the user's color scheme preference
+    const resolvedMode = choices.mode === "system" ? (matchesMedia(DARK_QUERY) ? "dark" : "light") : choices.mode;
+
+    // Raise the contrast to at least the configured system level while the user prefers more contrast
+    const chosenContrast = namedTheme?.contrastLevel ?? choices.contrastLevel;
+    const contrastLevel =
+      systemContrast !== undefined && matchesMedia(MORE_CONTRAST_QUERY)
+        ? Math.max(chosenContrast, systemContrast === "high" ? ContrastLevel.HIGH : ContrastLevel.MEDIUM)
+        : chosenContrast;
+
+    // An imported theme replaces the controller's own theme, but not an active named theme. The key covers every
+    // option the theme is generated from, so new arrays or objects with the same content reuse the cached theme, and
+    // the registry version of custom variants, so a replaced or removed factory is not served from the cache.
+    const activeImport = namedTheme ? undefined : importedTheme;
+    const key = JSON.stringify([
+      themeSourceColor,
+      themeVariant,
+      typeof themeVariant === "string" ? getVariantRegistryVersion() : 0,
+      contrastLevel,
+      themeCustomColors,
+      themeSeedColors,
+      overrides,
+    ]);
+    let current = theme;
+    if (!current || themeInputs?.key !== key || themeInputs.importedTheme !== activeImport) {
+      if (activeImport) {
+        current =
+          Object.keys(overrides).length > 0 ? overrideThemeColors(activeImport.theme, overrides) : activeImport.theme;
+      } else {
+        try {
+          current = generateTheme(
+            key,
+            {
+              sourceColor: themeSourceColor,
+              variant: themeVariant,
+              contrastLevel,
+              customColors: themeCustomColors,
+              seedColors: themeSeedColors,
+            },
+            overrides,
+          );
+        } catch (error) {
+          console.error("Error generating material theme:", error);
+          // Keep the last valid theme, or fall back to the default source color at first
+          current ??= createMaterialTheme(argbFromHex(DEFAULT_SOURCE_COLOR), Variant.FIDELITY, contrastLevel);
+        }
+      }
+      theme = current;
+      themeInputs = { key, importedTheme: activeImport };
+    }
+
+    return {
+      sourceColor: choices.sourceColor,
+      variant: themeVariant,
+      contrastLevel,
+      mode: choices.mode,
+      resolvedMode,
+      activeTheme: choices.activeTheme,
+      theme: current,
+      scheme: resolvedMode === "dark" ? current.schemes.dark : current.schemes.light,
+    };
+  };
+
+  let state = computeState();
+
+  // System preferences are only watched while they affect the state and the controller has subscribers
+  const watchPreferences = () => {
+    const queries = new Set<string>();
+    if (listeners.size > 0) {
+      if (choices.mode === "system") queries.add(DARK_QUERY);
+      if (settings.systemContrast !== undefined) queries.add(MORE_CONTRAST_QUERY);
+    }
+
+    for (const [query, stop] of mediaListeners) {
+      if (queries.has(query)) continue;
+      stop();
+      mediaListeners.delete(query);
+    }
+    for (const query of queries) {
+      if (!mediaListeners.has(query)) mediaListeners.set(query, watchMedia(query, update));
+    }
+  };
+
+  // Listeners are only notified when a value of the snapshot changes
+  const update = () => {
+    const next = computeState();
+    if (!isSameState(next, state)) {
+      state = next;
+      for (const listener of listeners) listener();
+    }
+    watchPreferences();
+  };
+
+  const choose = (patch: Partial<ThemeChoices>) => {
+    const next = { ...choices, ...patch };
+    if ((Object.keys(patch) as Array<keyof ThemeChoices>).every((key) => Object.is(next[key], choices[key]))) return;
+
+    choices = next;
+    update();
+  };
+
+  // Makes a choice through a setter, persisting it along with the choices saved before
+  const chooseAndSave = (patch: PersistedThemeState) => {
+    if (storage) {
+      saved = { ...saved, ...patch };
+      const { sourceColor, variant, mode, contrastLevel } = saved;
+      const value = serializeThemeState({ sourceColor, variant, mode, contrastLevel });
+      if (storage.getItem(storageKey) !== value) {
+        storage.setItem(storageKey, value);
+      }
+    }
+    choose(patch);
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+
+    if (listeners.size === 1) {
+      // Apply theme choices persisted elsewhere, e.g. in another browser tab
+      stopStorageSync = storage?.subscribe?.(storageKey, (value) => {
+        const restored = parseThemeState(value);
+        if (!restored) return;
+
+        saved = restored;
+        choose({
+          sourceColor: restored.sourceColor ?? choices.sourceColor,
+          variant: restored.variant ?? choices.variant,
+          mode: restored.mode ?? choices.mode,
+          contrastLevel: restored.contrastLevel ?? choices.contrastLevel,
+        });
+      });
+    }
+    // Catch up with preferences that changed while nothing was watching them
+    update();
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        stopStorageSync?.();
+        stopStorageSync = undefined;
+      }
+      watchPreferences();
+    };
+  };
+
+  // Tokens on the document root are left in place, so the page keeps its theme
+  const removeTokens = () => {
+    cancelTransition?.();
+    cancelTransition = undefined;
+
+    if (applied && applied.element !== document.documentElement) {
+      for (const key of new Set([...applied.shown.keys(), ...applied.tokens.keys()])) {
+        applied.element.style.removeProperty(key);
+      }
+    }
+    applied = null;
+  };
+
+  const apply = () => {
+    if (typeof document === "undefined") return;
+
+    const element = settings.target === undefined ? document.documentElement : settings.target;
+    if (!element) return;
+
+    if (computedTokens?.state !== state || computedTokens.settings !== settings) {
+      const { palettes, prefix, transform, formats, states, elevation, typography, shape, motion } = settings;
+      computedTokens = {
+        state,
+        settings,
+        tokens: getThemeTokens(state.theme, state.resolvedMode === "dark", {
+          palettes,
+          prefix,
+          transform,
+          formats,
+          states,
+          elevation,
+          typography,
+          shape,
+          motion,
+        }),
+      };
+    }
+    const { tokens } = computedTokens;
+
+    if (applied && applied.element !== element) {
+      removeTokens();
+    }
+    // Nothing to do when the tokens are already applied, or being transitioned to
+    if (applied && isSameTokens(applied.tokens, tokens)) return;
+
+    // Only touch properties whose values change, and remove those the new tokens no longer include
+    const writeTokens = (values: Map<string, string>) => {
+      applied?.shown.forEach((_value, key) => {
+        if (!values.has(key)) element.style.removeProperty(key);
+      });
+      values.forEach((value, key) => {
+        if (element.style.getPropertyValue(key) !== value) {
+          element.style.setProperty(key, value);
+        }
+      });
+      applied = { element, shown: values, tokens };
+    };
+
+    // Animate from the values currently shown, which may be a frame of an interrupted transition. Transitions are
+    // skipped while the user prefers reduced motion.
+    cancelTransition?.();
+    cancelTransition = undefined;
+    const shownTokens = applied?.shown;
+    const { transition } = settings;
+    if (transition && shownTokens && !matchesMedia(REDUCED_MOTION_QUERY)) {
+      cancelTransition = animateTokens(shownTokens, tokens, transition, writeTokens);
+    } else {
+      writeTokens(tokens);
+    }
+  };
+
+  const destroy = () => {
+    if (typeof document !== "undefined") removeTokens();
+
+    listeners.clear();
+    stopStorageSync?.();
+    stopStorageSync = undefined;
+    watchPreferences();
+  };
+
+  // Invalid colors are rejected before they reach the state, as stored state with one would be discarded as a whole
+  const setSourceColor = (color: string) => {
+    if (!isHexColor(color)) {
+      console.error(`Invalid hex value "${color}" for source color`);
+      return;
+    }
+    chooseAndSave({ sourceColor: color });
+  };
+
+  return {
+    getState: () => state,
+    subscribe,
+    setSourceColor,
+    setSourceImage: async (image: ImageSource) => {
+      const candidates = await sourceColorFromImage(image);
+      setSourceColor(hexFromArgb(candidates[0]));
+      return candidates;
+    },
+    setVariant: (variant) => chooseAndSave({ variant }),
+    setContrastLevel: (level) => chooseAndSave({ contrastLevel: level }),
+    setMode: (mode) => chooseAndSave({ mode }),
+    setActiveTheme: (name) => choose({ activeTheme: name }),
+    registerTheme: (name, config) => {
+      registeredThemes = { ...registeredThemes, [name]: config };
+      update();
+    },
+    setOptions: (next) => {
+      settings = { ...settings, ...next };
+      update();
+    },
+    apply,
+    destroy,
+  };
+};
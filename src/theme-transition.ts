@@ -0,0 +1,147 @@
+import { Hct } from "@material/material-color-utilities";
+import { formatColor, parseColor } from "./color-formats";
+import type { ThemeTransition } from "./types";
+
+/**
+ * Creates an easing function from the control points of a CSS `cubic-bezier()` curve.
+ *
+ * @param {number} x1 - X coordinate of the first control point (0 to 1)
+ * @param {number} y1 - Y coordinate of the first control point
+ * @param {number} x2 - X coordinate of the second control point (0 to 1)
+ * @param {number} y2 - Y coordinate of the second control point
+ * @returns {(progress: number) => number} Easing function mapping linear progress to eased progress
+ */
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number): ((progress: number) => number) => {
+  const sample = (a: number, b: number, t: number) => 3 * a * (1 - t) ** 2 * t + 3 * b * (1 - t) * t ** 2 + t ** 3;
+
+  return (progress) => {
+    if (progress <= 0) return 0;
+    if (progress >= 1) return 1;
+
+    // Find the curve parameter for the given x by bisection
+    let low = 0;
+    let high = 1;
+    let t = progress;
+    for (let i = 0; i < 20; i++) {
+      t = (low + high) / 2;
+      if (sample(x1, x2, t) < progress) {
+        low = t;
+      } else {
+        high = t;
+      }
+    }
+    return sample(y1, y2, t);
+  };
+};
+
+/**
+ * Material Design 3 standard easing, `cubic-bezier(0.2, 0, 0, 1)`.
+ */
+export const STANDARD_EASING = cubicBezier(0.2, 0, 0, 1);
+
+/**
+ * Interpolates between two colors in the HCT color space, taking the shortest path around the hue circle.
+ *
+ * @param {number} from - Start color in ARGB format
+ * @param {number} to - End color in ARGB format
+ * @param {number} progress - Interpolation progress from 0 to 1
+ * @returns {number} Interpolated color in ARGB format
+ */
+export const interpolateColor = (from: number, to: number, progress: number): number => {
+  if (progress <= 0) return from;
+  if (progress >= 1) return to;
+
+  const start = Hct.fromInt(from);
+  const end = Hct.fromInt(to);
+
+  // Achromatic colors have no meaningful hue, so take the hue of the other color
+  const startHue = start.chroma < 1 ? end.hue : start.hue;
+  const endHue = end.chroma < 1 ? startHue : end.hue;
+  const hueDelta = ((((endHue - startHue) % 360) + 540) % 360) - 180;
+
+  return Hct.from(
+    (startHue + hueDelta * progress + 360) % 360,
+    start.chroma + (end.chroma - start.chroma) * progress,
+    start.tone + (end.tone - start.tone) * progress,
+  ).toInt();
+};
+
+/**
+ * Interpolates every color token present in both maps, in any format written by `formatColor` as long as both values
+ * share it; other tokens take their target value.
+ *
+ * @param {Map<string, string>} from - Tokens at the start of the transition
+ * @param {Map<string, string>} to - Tokens at the end of the transition
+ * @param {number} progress - Interpolation progress from 0 to 1
+ * @returns {Map<string, string>} Interpolated tokens
+ */
+export const interpolateTokens = (
+  from: Map<string, string>,
+  to: Map<string, string>,
+  progress: number,
+): Map<string, string> => {
+  const tokens = new Map<string, string>();
+
+  to.forEach((value, key) => {
+    const start = from.get(key);
+    const startColor = start === undefined || start === value ? null : parseColor(start);
+    const endColor = startColor ? parseColor(value) : null;
+    if (!startColor || !endColor || startColor.format !== endColor.format) {
+      tokens.set(key, value);
+      return;
+    }
+    tokens.set(key, formatColor(interpolateColor(startColor.argb, endColor.argb, progress), endColor.format));
+  });
+
+  return tokens;
+};
+
+/**
+ * Animates tokens from one set of values to another, calling `onFrame` with the interpolated tokens on every
+ * animation frame. The first frame is written synchronously and the last frame is always the exact target.
+ *
+ * @param {Map<string, string>} from - Tokens at the start of the transition
+ * @param {Map<string, string>} to - Tokens at the end of the transition
+ * @param {ThemeTransition} transition - Duration and easing
+ * @param {(tokens: Map<string, string>) => void} onFrame - Writes a frame of tokens
+ * @returns {() => void} Function cancelling the animation, leaving the last written frame in place
+ */
+export const animateTokens = (
+  from: Map<string, string>,
+  to: Map<string, string>,
+  { duration, easing = STANDARD_EASING }: ThemeTransition,
+  onFrame: (tokens: Map<string, string>) => void,
+): (() => void) => {
+  if (duration <= 0) {
+    onFrame(to);
+    return () => {};
+  }
+
+  // Schedules a frame, returning a function cancelling it; timers stand in where animation frames are unavailable
+  const requestFrame = (callback: FrameRequestCallback): (() => void) => {
+    if (typeof requestAnimationFrame === "function") {
+      const id = requestAnimationFrame(callback);
+      return () => cancelAnimationFrame(id);
+    }
+    const timeout = setTimeout(() => callback(Date.now()), 16);
+    return () => clearTimeout(timeout);
+  };
+
+  let startTime: number | undefined;
+  let cancelFrame: () => void;
+
+  const step = (time: number) => {
+    startTime ??= time;
+    const progress = Math.min((time - startTime) / duration, 1);
+
+    onFrame(progress === 1 ? to : interpolateTokens(from, to, easing(progress)));
+    if (progress < 1) {
+      cancelFrame = requestFrame(step);
+    }
+  };
+
+  onFrame(interpolateTokens(from, to, 0));
+  cancelFrame = requestFrame(step);
+
+  return () => cancelFrame();
+};
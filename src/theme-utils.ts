@@ -1,28 +1,156 @@
 import {
+  argbFromHex,
   customColor,
   type CustomColor,
+  DynamicScheme,
   Hct,
   hexFromArgb,
-  SchemeContent,
-  SchemeExpressive,
-  SchemeFidelity,
-  SchemeFruitSalad,
-  SchemeMonochrome,
-  SchemeNeutral,
-  SchemeRainbow,
-  SchemeTonalSpot,
-  SchemeVibrant,
+  TonalPalette,
 } from "@material/material-color-utilities";
-import { type MaterialTheme, Variant } from "./types";
+import {
+  type ColorFormat,
+  type ColorOverrides,
+  type ColorRole,
+  COLOR_ROLES,
+  type HexCustomColor,
+  type HexSeedColors,
+  type InteractionState,
+  type MaterialTheme,
+  type PaletteName,
+  type SeedColors,
+  type SeedPaletteName,
+  STATE_LAYER_ROLES,
+  type StateLayerRole,
+  type ThemeCssOptions,
+  type ThemeTokenOptions,
+  type ThemeVariant,
+  Variant,
+} from "./types";
+import { toTokenName } from "./string-utils";
+import { getSchemeFactory } from "./variants";
+import { formatColorTokens } from "./color-formats";
+import { ELEVATION_TINT_OPACITY, getElevationSurface, getStateLayerColor, STATE_LAYER_OPACITY } from "./state-tokens";
+import {
+  getMotionTokens,
+  getShapeTokens,
+  getTypographyTokens,
+  resolveMotion,
+  resolveShape,
+  resolveTypography,
+} from "./system-tokens";
+
+/**
+ * Standard tones of the Material Design 3 reference palettes.
+ */
+export const STANDARD_TONES = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 100];
+
+const DEFAULT_FORMATS: ColorFormat[] = ["hex"];
+
+// Palette names in the order they are output, with their CSS variable names
+const PALETTE_TOKEN_NAMES: Record<PaletteName, string> = {
+  primary: "primary",
+  secondary: "secondary",
+  tertiary: "tertiary",
+  neutral: "neutral",
+  neutralVariant: "neutral-variant",
+  error: "error",
+};
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Checks whether a string is a hex color accepted by `argbFromHex` (3, 6 or 8 digits, optional leading `#`).
+ *
+ * @param {string} value - Value to check
+ * @returns {boolean} True if the value is a valid hex color
+ */
+export const isHexColor = (value: string): boolean => HEX_COLOR_PATTERN.test(value);
+
+/**
+ * Converts hex custom color definitions into `CustomColor` entries.
+ * Each invalid color is reported and skipped, so one bad value does not break the whole theme.
+ *
+ * @param {HexCustomColor[]} colors - Custom color definitions with hex values
+ * @returns {CustomColor[]} Custom colors with ARGB values
+ */
+export const customColorsFromHex = (colors: HexCustomColor[]): CustomColor[] => {
+  const result: CustomColor[] = [];
+
+  for (const color of colors) {
+    if (!isHexColor(color.value)) {
+      console.error(`Invalid hex value "${color.value}" for custom color "${color.name}"`);
+      continue;
+    }
+
+    result.push({ name: color.name, value: argbFromHex(color.value), blend: color.blend });
+  }
+
+  return result;
+};
+
+/**
+ * Converts hex seed colors into ARGB seed colors.
+ * Each invalid color is reported and skipped, so its palette is derived from the source color instead.
+ *
+ * @param {HexSeedColors} colors - Seed colors with hex values
+ * @returns {SeedColors} Seed colors with ARGB values
+ */
+export const seedColorsFromHex = (colors: HexSeedColors): SeedColors => {
+  const result: SeedColors = {};
+
+  for (const [palette, value] of Object.entries(colors) as [SeedPaletteName, string | undefined][]) {
+    if (value === undefined) continue;
+    if (!isHexColor(value)) {
+      console.error(`Invalid hex value "${value}" for ${palette} seed color`);
+      continue;
+    }
+
+    result[palette] = argbFromHex(value);
+  }
+
+  return result;
+};
+
+/**
+ * Replaces the palettes of a scheme with palettes generated from seed colors.
+ * The scheme keeps its variant, so roles are still assigned the variant's tones.
+ *
+ * @param {DynamicScheme} scheme - Color scheme created for the source color
+ * @param {SeedColors} seedColors - Seed colors of the palettes to replace
+ * @returns {DynamicScheme} Color scheme using the seeded palettes
+ */
+const applySeedColors = (scheme: DynamicScheme, seedColors: SeedColors): DynamicScheme => {
+  const seededPalette = (palette: SeedPaletteName) => {
+    const seed = seedColors[palette];
+    return seed === undefined ? getPalette(scheme, palette) : TonalPalette.fromInt(seed);
+  };
+
+  const seeded = new DynamicScheme({
+    sourceColorArgb: scheme.sourceColorArgb,
+    variant: scheme.variant,
+    contrastLevel: scheme.contrastLevel,
+    isDark: scheme.isDark,
+    primaryPalette: seededPalette("primary"),
+    secondaryPalette: seededPalette("secondary"),
+    tertiaryPalette: seededPalette("tertiary"),
+    neutralPalette: seededPalette("neutral"),
+    neutralVariantPalette: seededPalette("neutralVariant"),
+  });
+  seeded.errorPalette = seededPalette("error");
+
+  return seeded;
+};
 
 /**
  * Creates a Material Design 3 theme based on a source color and variant.
  *
  * @param {number} source - Source color in ARGB format
- * @param {Variant} variant - Theme variant to generate
+ * @param {ThemeVariant} variant - Built-in or registered custom variant to generate
  * @param {number} contrastLevel - Contrast adjustment level (-1.0 to 1.0)
  * @param {CustomColor[]} customColors - Array of custom color definitions
+ * @param {SeedColors} seedColors - Seed colors of palettes that should not be derived from the source color
  * @returns {MaterialTheme} Generated Material theme configuration
+ * @throws {Error} When the variant is neither built in nor registered
  *
  * @example
  * ```ts
@@ -30,58 +158,26 @@ import { type MaterialTheme, Variant } from "./types";
  *   argbFromHex("#6D509F"),
  *   Variant.TONAL_SPOT,
  *   0.0,
- *   [{ name: "brand", value: argbFromHex("#FF0000"), blend: true }]
+ *   [{ name: "brand", value: argbFromHex("#FF0000"), blend: true }],
+ *   { tertiary: argbFromHex("#00897B") }
  * );
  * ```
  */
 export const createMaterialTheme = (
   source: number,
-  variant: Variant = Variant.TONAL_SPOT,
+  variant: ThemeVariant = Variant.TONAL_SPOT,
   contrastLevel = 0.0,
   customColors: CustomColor[] = [],
+  seedColors: SeedColors = {},
 ): MaterialTheme => {
-  // Initialize with default tonal spot schemes
-  let lightScheme = new SchemeTonalSpot(Hct.fromInt(source), false, contrastLevel);
-  let darkScheme = new SchemeTonalSpot(Hct.fromInt(source), true, contrastLevel);
-
-  // Generate appropriate scheme based on variant
-  switch (variant) {
-    case Variant.MONOCHROME:
-      lightScheme = new SchemeMonochrome(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeMonochrome(Hct.fromInt(source), true, contrastLevel);
-      break;
-    case Variant.NEUTRAL:
-      lightScheme = new SchemeNeutral(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeNeutral(Hct.fromInt(source), true, contrastLevel);
-      break;
-    case Variant.TONAL_SPOT:
-      lightScheme = new SchemeTonalSpot(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeTonalSpot(Hct.fromInt(source), true, contrastLevel);
-      break;
-    case Variant.VIBRANT:
-      lightScheme = new SchemeVibrant(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeVibrant(Hct.fromInt(source), true, contrastLevel);
-      break;
-    case Variant.EXPRESSIVE:
-      lightScheme = new SchemeExpressive(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeExpressive(Hct.fromInt(source), true, contrastLevel);
-      break;
-    case Variant.FIDELITY:
-      lightScheme = new SchemeFidelity(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeFidelity(Hct.fromInt(source), true, contrastLevel);
-      break;
-    case Variant.CONTENT:
-      lightScheme = new SchemeContent(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeContent(Hct.fromInt(source), true, contrastLevel);
-      break;
-    case Variant.RAINBOW:
-      lightScheme = new SchemeRainbow(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeRainbow(Hct.fromInt(source), true, contrastLevel);
-      break;
-    case Variant.FRUIT_SALAD:
-      lightScheme = new SchemeFruitSalad(Hct.fromInt(source), false, contrastLevel);
-      darkScheme = new SchemeFruitSalad(Hct.fromInt(source), true, contrastLevel);
-      break;
+  const createScheme = getSchemeFactory(variant);
+  const sourceColorHct = Hct.fromInt(source);
+  let lightScheme = createScheme(sourceColorHct, false, contrastLevel);
+  let darkScheme = createScheme(sourceColorHct, true, contrastLevel);
+
+  if (Object.keys(seedColors).length > 0) {
+    lightScheme = applySeedColors(lightScheme, seedColors);
+    darkScheme = applySeedColors(darkScheme, seedColors);
   }
 
   return {
@@ -95,66 +191,204 @@ export const createMaterialTheme = (
   };
 };
 
+/**
+ * Returns a scheme whose role colors are replaced by the given overrides.
+ * The result inherits everything else from the original scheme, which is left unchanged.
+ * Each invalid color is reported and skipped.
+ *
+ * @param {DynamicScheme} scheme - Color scheme
+ * @param {ColorOverrides} overrides - Role colors in hex format
+ * @returns {DynamicScheme} Color scheme with the overrides applied
+ */
+export const overrideSchemeColors = (scheme: DynamicScheme, overrides: ColorOverrides): DynamicScheme => {
+  const overridden: DynamicScheme = Object.create(scheme);
+
+  for (const [role, value] of Object.entries(overrides) as [ColorRole, string | undefined][]) {
+    if (value === undefined) continue;
+    if (!isHexColor(value)) {
+      console.error(`Invalid hex value "${value}" for color role "${role}"`);
+      continue;
+    }
+
+    Object.defineProperty(overridden, role, { value: argbFromHex(value), enumerable: true });
+  }
+
+  return overridden;
+};
+
+/**
+ * Applies role color overrides to both schemes of a theme.
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @param {ColorOverrides} overrides - Role colors in hex format
+ * @returns {MaterialTheme} Theme with the overrides applied
+ */
+export const overrideThemeColors = (theme: MaterialTheme, overrides: ColorOverrides): MaterialTheme => ({
+  ...theme,
+  schemes: {
+    light: overrideSchemeColors(theme.schemes.light, overrides),
+    dark: overrideSchemeColors(theme.schemes.dark, overrides),
+  },
+});
+
 /**
  * Generates a map of CSS custom properties based on the Material theme.
- * Includes all color tokens defined in Material Design 3.
+ * Includes all color tokens defined in Material Design 3, followed by the
+ * `--md-custom-color-*` family for each custom color in the theme and,
+ * when enabled, the `--md-ref-palette-*` tones of every tonal palette, the `--md-sys-state-*` state layers, the
+ * `--md-sys-elevation-surface-level*` surfaces and the typography, shape and motion tokens.
+ * Every color is output in each of the configured formats.
+ * Overrides are applied to the scheme first, and `transform` receives the finished map.
  *
  * @param {MaterialTheme} theme - Material theme configuration
  * @param {boolean} isDark - Whether to use dark mode values
- * @returns {Map<string, string>} Map of CSS variable names to color values
+ * @param {ThemeTokenOptions} [options] - Additional token options
+ * @returns {Map<string, string>} Map of CSS variable names to values
+ */
+export const getThemeTokens = (
+  theme: MaterialTheme,
+  isDark: boolean,
+  options: ThemeTokenOptions = {},
+): Map<string, string> => {
+  const { prefix = "--md-sys-color-", overrides, transform, formats = DEFAULT_FORMATS } = options;
+  const baseScheme = isDark ? theme.schemes.dark : theme.schemes.light;
+  const scheme = overrides ? overrideSchemeColors(baseScheme, overrides) : baseScheme;
+
+  const tokens = new Map<string, string>();
+  const setColor = (name: string, argb: number) => {
+    for (const [key, value] of formatColorTokens(name, argb, formats)) {
+      tokens.set(key, value);
+    }
+  };
+
+  for (const role of COLOR_ROLES) {
+    setColor(`${prefix}${toTokenName(role)}`, scheme[role]);
+  }
+
+  for (const group of theme.customColors) {
+    const name = toTokenName(group.color.name);
+    const colors = isDark ? group.dark : group.light;
+
+    setColor(`--md-custom-color-${name}`, colors.color);
+    setColor(`--md-custom-color-on-${name}`, colors.onColor);
+    setColor(`--md-custom-color-${name}-container`, colors.colorContainer);
+    setColor(`--md-custom-color-on-${name}-container`, colors.onColorContainer);
+  }
+
+  if (options.palettes) {
+    const tones = options.palettes === true ? STANDARD_TONES : options.palettes;
+
+    for (const [palette, name] of Object.entries(PALETTE_TOKEN_NAMES)) {
+      for (const tone of tones) {
+        setColor(`--md-ref-palette-${name}${tone}`, getPalette(scheme, palette as PaletteName).tone(tone));
+      }
+    }
+  }
+
+  if (options.states) {
+    for (const [state, opacity] of Object.entries(STATE_LAYER_OPACITY)) {
+      tokens.set(`--md-sys-state-${state}-state-layer-opacity`, String(opacity));
+    }
+
+    for (const role of Object.keys(STATE_LAYER_ROLES) as StateLayerRole[]) {
+      for (const state of Object.keys(STATE_LAYER_OPACITY) as InteractionState[]) {
+        setColor(`--md-sys-state-${toTokenName(role)}-${state}`, getStateLayerColor(scheme, role, state));
+      }
+    }
+  }
+
+  if (options.elevation) {
+    ELEVATION_TINT_OPACITY.forEach((_opacity, level) => {
+      setColor(`--md-sys-elevation-surface-level${level}`, getElevationSurface(scheme, level));
+    });
+  }
+
+  // Typography, shape and motion do not depend on the scheme, but are output with it so one map holds the whole theme
+  const setTokens = (values: Map<string, string>) => {
+    values.forEach((value, key) => tokens.set(key, value));
+  };
+
+  if (options.typography) {
+    setTokens(getTypographyTokens(resolveTypography(options.typography === true ? {} : options.typography)));
+  }
+
+  if (options.shape) {
+    setTokens(getShapeTokens(resolveShape(options.shape === true ? {} : options.shape)));
+  }
+
+  if (options.motion) {
+    setTokens(getMotionTokens(resolveMotion(options.motion === true ? {} : options.motion)));
+  }
+
+  return transform ? transform(tokens, scheme) : tokens;
+};
+
+/**
+ * Returns a tonal palette of a scheme by name.
+ *
+ * @param {DynamicScheme} scheme - Color scheme
+ * @param {PaletteName} palette - Palette name
+ * @returns {TonalPalette} Tonal palette
+ */
+const getPalette = (scheme: DynamicScheme, palette: PaletteName): TonalPalette => scheme[`${palette}Palette`];
+
+/**
+ * Returns a tone of one of the theme's tonal palettes.
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @param {PaletteName} palette - Palette name
+ * @param {number} tone - Tone from 0 (black) to 100 (white)
+ * @returns {string} Color in hex format
+ *
+ * @example
+ * ```ts
+ * getPaletteTone(theme, "neutralVariant", 90);
+ * ```
+ */
+export const getPaletteTone = (theme: MaterialTheme, palette: PaletteName, tone: number): string =>
+  hexFromArgb(getPalette(theme.schemes.light, palette).tone(tone));
+
+/**
+ * Renders a CSS rule block containing the given tokens.
+ *
+ * @param {string} selector - Rule selector
+ * @param {Map<string, string>} tokens - Map of CSS variable names to values
+ * @param {string} [indent=""] - Indentation prefix for nested rules
+ * @returns {string} CSS rule
+ */
+const renderRule = (selector: string, tokens: Map<string, string>, indent = ""): string => {
+  const declarations = Array.from(tokens, ([key, value]) => `${indent}  ${key}: ${value};`);
+  return `${indent}${selector} {\n${declarations.join("\n")}\n${indent}}`;
+};
+
+/**
+ * Renders a Material theme as a static stylesheet built from `getThemeTokens`.
+ * Suitable for server rendering or build-time generation, so tokens are available before any script runs.
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @param {ThemeCssOptions} [options] - Selector, mode, dark mode strategy and token options
+ * @returns {string} Stylesheet with the theme tokens
+ *
+ * @example
+ * ```ts
+ * const css = renderThemeCss(createMaterialTheme(argbFromHex("#6D509F")));
+ * // :root { --md-sys-color-background: ...; }
+ * // @media (prefers-color-scheme: dark) { :root { ... } }
+ * ```
  */
-export const getThemeTokens = (theme: MaterialTheme, isDark: boolean): Map<string, string> => {
-  const scheme = isDark ? theme.schemes.dark : theme.schemes.light;
-
-  return new Map<string, string>([
-    ["--md-sys-color-background", hexFromArgb(scheme.background)],
-    ["--md-sys-color-error", hexFromArgb(scheme.error)],
-    ["--md-sys-color-error-container", hexFromArgb(scheme.errorContainer)],
-    ["--md-sys-color-inverse-on-surface", hexFromArgb(scheme.inverseOnSurface)],
-    ["--md-sys-color-inverse-primary", hexFromArgb(scheme.inversePrimary)],
-    ["--md-sys-color-inverse-surface", hexFromArgb(scheme.inverseSurface)],
-    ["--md-sys-color-on-background", hexFromArgb(scheme.onBackground)],
-    ["--md-sys-color-on-error", hexFromArgb(scheme.onError)],
-    ["--md-sys-color-on-error-container", hexFromArgb(scheme.onErrorContainer)],
-    ["--md-sys-color-on-primary", hexFromArgb(scheme.onPrimary)],
-    ["--md-sys-color-on-primary-container", hexFromArgb(scheme.onPrimaryContainer)],
-    ["--md-sys-color-on-primary-fixed", hexFromArgb(scheme.onPrimaryFixed)],
-    ["--md-sys-color-on-primary-fixed-variant", hexFromArgb(scheme.onPrimaryFixedVariant)],
-    ["--md-sys-color-on-secondary", hexFromArgb(scheme.onSecondary)],
-    ["--md-sys-color-on-secondary-container", hexFromArgb(scheme.onSecondaryContainer)],
-    ["--md-sys-color-on-secondary-fixed", hexFromArgb(scheme.onSecondaryFixed)],
-    ["--md-sys-color-on-secondary-fixed-variant", hexFromArgb(scheme.onSecondaryFixedVariant)],
-    ["--md-sys-color-on-surface", hexFromArgb(scheme.onSurface)],
-    ["--md-sys-color-on-surface-variant", hexFromArgb(scheme.onSurfaceVariant)],
-    ["--md-sys-color-on-tertiary", hexFromArgb(scheme.onTertiary)],
-    ["--md-sys-color-on-tertiary-container", hexFromArgb(scheme.onTertiaryContainer)],
-    ["--md-sys-color-on-tertiary-fixed", hexFromArgb(scheme.onTertiaryFixed)],
-    ["--md-sys-color-on-tertiary-fixed-variant", hexFromArgb(scheme.onTertiaryFixedVariant)],
-    ["--md-sys-color-outline", hexFromArgb(scheme.outline)],
-    ["--md-sys-color-outline-variant", hexFromArgb(scheme.outlineVariant)],
-    ["--md-sys-color-primary", hexFromArgb(scheme.primary)],
-    ["--md-sys-color-primary-container", hexFromArgb(scheme.primaryContainer)],
-    ["--md-sys-color-primary-fixed", hexFromArgb(scheme.primaryFixed)],
-    ["--md-sys-color-primary-fixed-dim", hexFromArgb(scheme.primaryFixedDim)],
-    ["--md-sys-color-scrim", hexFromArgb(scheme.scrim)],
-    ["--md-sys-color-secondary", hexFromArgb(scheme.secondary)],
-    ["--md-sys-color-secondary-container", hexFromArgb(scheme.secondaryContainer)],
-    ["--md-sys-color-secondary-fixed", hexFromArgb(scheme.secondaryFixed)],
-    ["--md-sys-color-secondary-fixed-dim", hexFromArgb(scheme.secondaryFixedDim)],
-    ["--md-sys-color-shadow", hexFromArgb(scheme.shadow)],
-    ["--md-sys-color-surface", hexFromArgb(scheme.surface)],
-    ["--md-sys-color-surface-bright", hexFromArgb(scheme.surfaceBright)],
-    ["--md-sys-color-surface-container", hexFromArgb(scheme.surfaceContainer)],
-    ["--md-sys-color-surface-container-high", hexFromArgb(scheme.surfaceContainerHigh)],
-    ["--md-sys-color-surface-container-highest", hexFromArgb(scheme.surfaceContainerHighest)],
-    ["--md-sys-color-surface-container-low", hexFromArgb(scheme.surfaceContainerLow)],
-    ["--md-sys-color-surface-container-lowest", hexFromArgb(scheme.surfaceContainerLowest)],
-    ["--md-sys-color-surface-dim", hexFromArgb(scheme.surfaceDim)],
-    ["--md-sys-color-surface-tint", hexFromArgb(scheme.surfaceTint)], // Using primary tone
-    ["--md-sys-color-surface-variant", hexFromArgb(scheme.surfaceVariant)],
-    ["--md-sys-color-tertiary", hexFromArgb(scheme.tertiary)],
-    ["--md-sys-color-tertiary-container", hexFromArgb(scheme.tertiaryContainer)],
-    ["--md-sys-color-tertiary-fixed", hexFromArgb(scheme.tertiaryFixed)],
-    ["--md-sys-color-tertiary-fixed-dim", hexFromArgb(scheme.tertiaryFixedDim)],
-  ]);
+export const renderThemeCss = (theme: MaterialTheme, options: ThemeCssOptions = {}): string => {
+  const { selector = ":root", mode = "system", darkStrategy = "media", ...tokenOptions } = options;
+
+  if (mode !== "system") {
+    return renderRule(selector, getThemeTokens(theme, mode === "dark", tokenOptions));
+  }
+
+  const light = renderRule(selector, getThemeTokens(theme, false, tokenOptions));
+  const darkTokens = getThemeTokens(theme, true, tokenOptions);
+
+  if (darkStrategy === "attribute") {
+    return `${light}\n${renderRule(`${selector}[data-theme="dark"]`, darkTokens)}`;
+  }
+
+  return `${light}\n@media (prefers-color-scheme: dark) {\n${renderRule(selector, darkTokens, "  ")}\n}`;
 };
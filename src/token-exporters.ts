@@ -0,0 +1,193 @@
+import { hexFromArgb } from "@material/material-color-utilities";
+import { toCamelCase, toTokenName } from "./string-utils";
+import { COLOR_ROLES, type MaterialTheme, type ThemeColorsExport, type ThemeSchemeExport } from "./types";
+
+const SCHEME_MODES = ["light", "dark"] as const;
+
+/**
+ * Collects the color roles and custom colors of one scheme as hex values.
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @param {boolean} isDark - Whether to use dark mode values
+ * @returns {ThemeSchemeExport} Role and custom color values
+ */
+const getSchemeExport = (theme: MaterialTheme, isDark: boolean): ThemeSchemeExport => {
+  const scheme = isDark ? theme.schemes.dark : theme.schemes.light;
+
+  const colors = Object.fromEntries(COLOR_ROLES.map((role) => [role, hexFromArgb(scheme[role])]));
+  const customColors = Object.fromEntries(
+    theme.customColors.map((group) => {
+      const roles = isDark ? group.dark : group.light;
+      return [
+        toCamelCase(group.color.name),
+        {
+          color: hexFromArgb(roles.color),
+          onColor: hexFromArgb(roles.onColor),
+          colorContainer: hexFromArgb(roles.colorContainer),
+          onColorContainer: hexFromArgb(roles.onColorContainer),
+        },
+      ];
+    }),
+  );
+
+  return { colors, customColors } as ThemeSchemeExport;
+};
+
+/**
+ * Lists the kebab-case token names and values of every custom color family of one scheme, matching `getThemeTokens`.
+ * The names are built from the custom color names, as the camelCase keys of `exportThemeObject` drop the separators
+ * before digits (e.g. "brand_2" becomes "brand2").
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @param {boolean} isDark - Whether to use dark mode values
+ * @returns {Array<[string, string]>} Token names (without prefix) and values
+ */
+const customColorEntries = (theme: MaterialTheme, isDark: boolean): Array<[string, string]> =>
+  theme.customColors.flatMap((group): Array<[string, string]> => {
+    const tokenName = toTokenName(group.color.name);
+    const roles = isDark ? group.dark : group.light;
+    return [
+      [tokenName, hexFromArgb(roles.color)],
+      [`on-${tokenName}`, hexFromArgb(roles.onColor)],
+      [`${tokenName}-container`, hexFromArgb(roles.colorContainer)],
+      [`on-${tokenName}-container`, hexFromArgb(roles.onColorContainer)],
+    ];
+  });
+
+/**
+ * Exports a theme as a typed plain object with camelCase role names, for both light and dark schemes.
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @returns {ThemeColorsExport} Source color and hex values of every role and custom color
+ *
+ * @example
+ * ```ts
+ * const { light } = exportThemeObject(theme);
+ * light.colors.primaryContainer; // "#d1e4ff"
+ * ```
+ */
+export const exportThemeObject = (theme: MaterialTheme): ThemeColorsExport => ({
+  source: hexFromArgb(theme.source),
+  light: getSchemeExport(theme, false),
+  dark: getSchemeExport(theme, true),
+});
+
+/**
+ * Exports a theme as W3C Design Tokens Community Group (DTCG) JSON.
+ * Tokens are grouped by scheme (`light` / `dark`), with custom colors in a nested `custom` group.
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @returns {string} DTCG token file contents
+ */
+export const exportDesignTokens = (theme: MaterialTheme): string => {
+  const exported = exportThemeObject(theme);
+  const toToken = (value: string) => ({ $value: value });
+
+  const schemes = Object.fromEntries(
+    SCHEME_MODES.map((mode) => {
+      const { colors } = exported[mode];
+      const group: Record<string, unknown> = Object.fromEntries(
+        COLOR_ROLES.map((role) => [toTokenName(role), toToken(colors[role])]),
+      );
+
+      const custom = customColorEntries(theme, mode === "dark");
+      if (custom.length > 0) {
+        group.custom = Object.fromEntries(custom.map(([name, value]) => [name, toToken(value)]));
+      }
+
+      return [mode, group];
+    }),
+  );
+
+  return JSON.stringify({ color: { $type: "color", ...schemes } }, null, 2);
+};
+
+/**
+ * Exports a theme as a Tailwind CSS `theme.extend.colors` object.
+ * Top-level colors reference the CSS variables, so they follow the mode applied by the provider;
+ * static values are available under `light` and `dark` (e.g. `bg-dark-primary`).
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @returns {Record<string, string | Record<string, string>>} Tailwind colors
+ *
+ * @example
+ * ```ts
+ * // tailwind.config.ts
+ * export default { theme: { extend: { colors: exportTailwindColors(theme) } } };
+ * ```
+ */
+export const exportTailwindColors = (theme: MaterialTheme): Record<string, string | Record<string, string>> => {
+  const exported = exportThemeObject(theme);
+  const colors: Record<string, string | Record<string, string>> = {};
+
+  for (const role of COLOR_ROLES) {
+    colors[toTokenName(role)] = `var(--md-sys-color-${toTokenName(role)})`;
+  }
+  for (const [tokenName] of customColorEntries(theme, false)) {
+    colors[tokenName] = `var(--md-custom-color-${tokenName})`;
+  }
+
+  for (const mode of SCHEME_MODES) {
+    const roles = exported[mode].colors;
+    colors[mode] = Object.fromEntries([
+      ...COLOR_ROLES.map((role): [string, string] => [toTokenName(role), roles[role]]),
+      ...customColorEntries(theme, mode === "dark"),
+    ]);
+  }
+
+  return colors;
+};
+
+/**
+ * Exports a theme as SCSS variables, one per role and scheme (e.g. `$md-sys-color-primary-light`).
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @returns {string} SCSS file contents
+ */
+export const exportScssVariables = (theme: MaterialTheme): string => {
+  const exported = exportThemeObject(theme);
+  const lines: string[] = [];
+
+  for (const mode of SCHEME_MODES) {
+    const { colors } = exported[mode];
+    lines.push(`// ${mode} scheme`);
+    for (const role of COLOR_ROLES) {
+      lines.push(`$md-sys-color-${toTokenName(role)}-${mode}: ${colors[role]};`);
+    }
+    for (const [tokenName, value] of customColorEntries(theme, mode === "dark")) {
+      lines.push(`$md-custom-color-${tokenName}-${mode}: ${value};`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Exports a theme as SCSS maps keyed by role, one per scheme (e.g. `map.get($md-sys-color-light, "primary")`).
+ *
+ * @param {MaterialTheme} theme - Material theme configuration
+ * @returns {string} SCSS file contents
+ */
+export const exportScssMaps = (theme: MaterialTheme): string => {
+  const exported = exportThemeObject(theme);
+  const renderMap = (name: string, entries: Array<[string, string]>) =>
+    `$${name}: (\n${entries.map(([key, value]) => `  "${key}": ${value},`).join("\n")}\n);`;
+
+  const maps: string[] = [];
+  for (const mode of SCHEME_MODES) {
+    const { colors } = exported[mode];
+    maps.push(
+      renderMap(
+        `md-sys-color-${mode}`,
+        COLOR_ROLES.map((role) => [toTokenName(role), colors[role]]),
+      ),
+    );
+
+    const custom = customColorEntries(theme, mode === "dark");
+    if (custom.length > 0) {
+      maps.push(renderMap(`md-custom-color-${mode}`, custom));
+    }
+  }
+
+  return `${maps.join("\n\n")}\n`;
+};
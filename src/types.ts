@@ -1,9 +1,10 @@
-import type { ReactNode } from "react";
-import type { CustomColorGroup, DynamicScheme } from "@material/material-color-utilities";
+import type { ReactNode, RefObject } from "react";
+import type { CustomColorGroup, DynamicScheme, Hct } from "@material/material-color-utilities";
 
 /**
  * Enumeration of available theme variants in Material Design 3.
  * Each variant provides a different approach to color scheme generation.
+ * Values match the `Variant` enum of material-color-utilities, as reported by `DynamicScheme.variant`.
  *
  * @enum {number}
  */
@@ -28,13 +29,55 @@ export enum Variant {
   FRUIT_SALAD = 8,
 }
 
+/**
+ * Built-in variant or the name of a custom variant registered with `registerVariant`.
+ */
+export type ThemeVariant = Variant | string;
+
+/**
+ * Creates the color scheme of a variant.
+ *
+ * @param {Hct} sourceColorHct - Source color
+ * @param {boolean} isDark - Whether to create the dark scheme
+ * @param {number} contrastLevel - Contrast level (-1.0 to 1.0)
+ * @returns {DynamicScheme} Color scheme
+ */
+export type SchemeFactory = (sourceColorHct: Hct, isDark: boolean, contrastLevel: number) => DynamicScheme;
+
+/**
+ * Standard contrast levels defined by Material Design 3.
+ * Any value between -1.0 and 1.0 is accepted where a contrast level is expected.
+ *
+ * @enum {number}
+ */
+export enum ContrastLevel {
+  /** Minimum contrast. */
+  REDUCED = -1.0,
+  /** Standard contrast, the design as specified. */
+  STANDARD = 0.0,
+  /** Medium contrast. */
+  MEDIUM = 0.5,
+  /** High contrast. */
+  HIGH = 1.0,
+}
+
+/**
+ * Color scheme mode of the provider. "system" follows the `prefers-color-scheme` media query.
+ */
+export type ColorMode = "light" | "dark" | "system";
+
+/**
+ * Color scheme mode after resolving "system" against the user's preference.
+ */
+export type ResolvedColorMode = Exclude<ColorMode, "system">;
+
 /**
  * Interface describing the structure of a Material Design 3 theme.
  * Contains all necessary information to generate and apply a complete theme.
  *
  * @interface MaterialTheme
  * @property {number} source - Source color in ARGB format used as the base for theme generation
- * @property {Variant} variant - Theme variant used for color scheme generation
+ * @property {ThemeVariant} variant - Theme variant used for color scheme generation
  * @property {Object} schemes - Light and dark color schemes
  * @property {DynamicScheme} schemes.light - Light mode color scheme
  * @property {DynamicScheme} schemes.dark - Dark mode color scheme
@@ -42,7 +85,7 @@ export enum Variant {
  */
 export interface MaterialTheme {
   source: number;
-  variant: Variant;
+  variant: ThemeVariant;
   schemes: {
     light: DynamicScheme;
     dark: DynamicScheme;
@@ -50,19 +93,770 @@ export interface MaterialTheme {
   customColors: CustomColorGroup[];
 }
 
+/**
+ * Custom color definition using a hex color value, as accepted by the provider.
+ *
+ * @interface HexCustomColor
+ * @property {string} name - Identifier for the custom color, used in the generated CSS variable names
+ * @property {string} value - Hex color value (e.g., "#FF0000")
+ * @property {boolean} blend - Whether to blend (harmonize) the color with the source color
+ */
+export interface HexCustomColor {
+  name: string;
+  value: string;
+  blend: boolean;
+}
+
+/**
+ * Color roles of a Material Design 3 scheme, named after the matching `DynamicScheme` properties.
+ * Each role is output as a `--md-sys-color-*` token with the name in kebab-case.
+ */
+export const COLOR_ROLES = [
+  "background",
+  "error",
+  "errorContainer",
+  "inverseOnSurface",
+  "inversePrimary",
+  "inverseSurface",
+  "onBackground",
+  "onError",
+  "onErrorContainer",
+  "onPrimary",
+  "onPrimaryContainer",
+  "onPrimaryFixed",
+  "onPrimaryFixedVariant",
+  "onSecondary",
+  "onSecondaryContainer",
+  "onSecondaryFixed",
+  "onSecondaryFixedVariant",
+  "onSurface",
+  "onSurfaceVariant",
+  "onTertiary",
+  "onTertiaryContainer",
+  "onTertiaryFixed",
+  "onTertiaryFixedVariant",
+  "outline",
+  "outlineVariant",
+  "primary",
+  "primaryContainer",
+  "primaryFixed",
+  "primaryFixedDim",
+  "scrim",
+  "secondary",
+  "secondaryContainer",
+  "secondaryFixed",
+  "secondaryFixedDim",
+  "shadow",
+  "surface",
+  "surfaceBright",
+  "surfaceContainer",
+  "surfaceContainerHigh",
+  "surfaceContainerHighest",
+  "surfaceContainerLow",
+  "surfaceContainerLowest",
+  "surfaceDim",
+  "surfaceTint",
+  "surfaceVariant",
+  "tertiary",
+  "tertiaryContainer",
+  "tertiaryFixed",
+  "tertiaryFixedDim",
+] as const;
+
+/**
+ * Name of a Material Design 3 color role (e.g. "primaryContainer").
+ */
+export type ColorRole = (typeof COLOR_ROLES)[number];
+
+/**
+ * Roles that interactive elements use as their container, mapped to the role of the content and state layer on them.
+ */
+export const STATE_LAYER_ROLES = {
+  background: "onBackground",
+  error: "onError",
+  errorContainer: "onErrorContainer",
+  inverseSurface: "inverseOnSurface",
+  primary: "onPrimary",
+  primaryContainer: "onPrimaryContainer",
+  primaryFixed: "onPrimaryFixed",
+  primaryFixedDim: "onPrimaryFixed",
+  secondary: "onSecondary",
+  secondaryContainer: "onSecondaryContainer",
+  secondaryFixed: "onSecondaryFixed",
+  secondaryFixedDim: "onSecondaryFixed",
+  surface: "onSurface",
+  surfaceBright: "onSurface",
+  surfaceContainer: "onSurface",
+  surfaceContainerHigh: "onSurface",
+  surfaceContainerHighest: "onSurface",
+  surfaceContainerLow: "onSurface",
+  surfaceContainerLowest: "onSurface",
+  surfaceDim: "onSurface",
+  surfaceVariant: "onSurfaceVariant",
+  tertiary: "onTertiary",
+  tertiaryContainer: "onTertiaryContainer",
+  tertiaryFixed: "onTertiaryFixed",
+  tertiaryFixedDim: "onTertiaryFixed",
+} as const satisfies Partial<Record<ColorRole, ColorRole>>;
+
+/**
+ * Container role that has state layer colors (e.g. "primaryContainer").
+ */
+export type StateLayerRole = keyof typeof STATE_LAYER_ROLES;
+
+/**
+ * Interaction state with a Material Design 3 state layer.
+ */
+export type InteractionState = "hover" | "focus" | "pressed" | "dragged";
+
+/**
+ * State layer and elevation values of one scheme, in hex format.
+ *
+ * @interface ThemeStateTokens
+ * @property {Record<InteractionState, number>} opacity - State layer opacity of each interaction state
+ * @property {Record<StateLayerRole, Record<InteractionState, string>>} colors - Container colors with the state layer of
+ * each interaction state blended in
+ * @property {string[]} elevation - Surface colors of elevation levels 0 to 5
+ */
+export interface ThemeStateTokens {
+  opacity: Record<InteractionState, number>;
+  colors: Record<StateLayerRole, Record<InteractionState, string>>;
+  elevation: string[];
+}
+
+/**
+ * Color values of a custom color family.
+ *
+ * @interface CustomColorRoles
+ * @property {string} color - Custom color
+ * @property {string} onColor - Color for content on the custom color
+ * @property {string} colorContainer - Container variant of the custom color
+ * @property {string} onColorContainer - Color for content on the container
+ */
+export interface CustomColorRoles {
+  color: string;
+  onColor: string;
+  colorContainer: string;
+  onColorContainer: string;
+}
+
+/**
+ * Color roles generated for an arbitrary color, see `useColorRoles`.
+ *
+ * @interface ColorRoles
+ * @property {string} color - Main color, e.g. for a chart series or a tag's background
+ * @property {string} onColor - Color for content on `color`
+ * @property {string} container - Less prominent container color
+ * @property {string} onContainer - Color for content on `container`
+ */
+export interface ColorRoles {
+  color: string;
+  onColor: string;
+  container: string;
+  onContainer: string;
+}
+
+/**
+ * Exported color values of one scheme.
+ *
+ * @interface ThemeSchemeExport
+ * @property {Record<ColorRole, string>} colors - Hex value of every color role
+ * @property {Record<string, CustomColorRoles>} customColors - Custom color families keyed by camelCase name
+ */
+export interface ThemeSchemeExport {
+  colors: Record<ColorRole, string>;
+  customColors: Record<string, CustomColorRoles>;
+}
+
+/**
+ * Theme exported as a plain object, see `exportThemeObject`.
+ *
+ * @interface ThemeColorsExport
+ * @property {string} source - Source color in hex format
+ * @property {ThemeSchemeExport} light - Light scheme values
+ * @property {ThemeSchemeExport} dark - Dark scheme values
+ */
+export interface ThemeColorsExport {
+  source: string;
+  light: ThemeSchemeExport;
+  dark: ThemeSchemeExport;
+}
+
+/**
+ * Name of a tonal palette of a Material Design 3 theme.
+ */
+export type PaletteName = "primary" | "secondary" | "tertiary" | "neutral" | "neutralVariant" | "error";
+
+/**
+ * Name of a tonal palette that can be derived from its own seed color instead of the source color.
+ */
+export type SeedPaletteName = PaletteName;
+
+/**
+ * Seed colors in ARGB format overriding the palettes the variant derives from the source color.
+ */
+export type SeedColors = Partial<Record<SeedPaletteName, number>>;
+
+/**
+ * Seed colors in hex format, as accepted by the provider.
+ */
+export type HexSeedColors = Partial<Record<SeedPaletteName, string>>;
+
+/**
+ * Output format of color tokens: hex, space-separated RGB channels for `rgb(var(--token) / alpha)`, or a CSS color
+ * function.
+ */
+export type ColorFormat = "hex" | "rgb-channels" | "rgb" | "hsl" | "oklch";
+
+/**
+ * Role colors in hex format that replace the generated values.
+ */
+export type ColorOverrides = Partial<Record<ColorRole, string>>;
+
+/**
+ * Extension point receiving the generated tokens and the scheme they were generated from.
+ * Returns the tokens to output, e.g. the given map with additional or rewritten entries.
+ *
+ * @param {Map<string, string>} tokens - Generated tokens
+ * @param {DynamicScheme} scheme - Color scheme of the tokens, with overrides applied
+ * @returns {Map<string, string>} Tokens to output
+ */
+export type ThemeTokenTransform = (tokens: Map<string, string>, scheme: DynamicScheme) => Map<string, string>;
+
+/**
+ * Name of a Material Design 3 type scale style (e.g. "bodyMedium"), output as `--md-sys-typescale-body-medium-*`.
+ */
+export type TypescaleName = `${"display" | "headline" | "title" | "body" | "label"}${"Large" | "Medium" | "Small"}`;
+
+/**
+ * Style of one type scale entry. Sizes are in pixels and output in rem.
+ *
+ * @interface TypescaleStyle
+ * @property {"brand" | "plain"} font - Typeface of the style
+ * @property {"regular" | "medium" | "bold"} weight - Font weight of the style
+ * @property {number} size - Font size in pixels
+ * @property {number} lineHeight - Line height in pixels
+ * @property {number} tracking - Letter spacing in pixels
+ */
+export interface TypescaleStyle {
+  font: "brand" | "plain";
+  weight: "regular" | "medium" | "bold";
+  size: number;
+  lineHeight: number;
+  tracking: number;
+}
+
+/**
+ * Typography configuration, output as `--md-ref-typeface-*` and `--md-sys-typescale-*` tokens.
+ *
+ * @interface TypographyConfig
+ * @property {string} brandFont - Font family of display, headline and large title styles
+ * @property {string} plainFont - Font family of the remaining styles
+ * @property {Object} weights - Numeric font weights
+ * @property {Record<TypescaleName, TypescaleStyle>} scale - Style of every type scale entry
+ */
+export interface TypographyConfig {
+  brandFont: string;
+  plainFont: string;
+  weights: Record<TypescaleStyle["weight"], number>;
+  scale: Record<TypescaleName, TypescaleStyle>;
+}
+
+/**
+ * Typography values replacing the Material Design 3 defaults.
+ */
+export interface TypographyOptions {
+  brandFont?: string;
+  plainFont?: string;
+  weights?: Partial<TypographyConfig["weights"]>;
+  scale?: Partial<Record<TypescaleName, Partial<TypescaleStyle>>>;
+}
+
+/**
+ * Name of a corner size of the Material Design 3 shape scale, output as `--md-sys-shape-corner-*`.
+ */
+export type ShapeCorner = "none" | "extraSmall" | "small" | "medium" | "large" | "extraLarge" | "full";
+
+/**
+ * Corner radius in pixels of every size of the shape scale.
+ */
+export type ShapeConfig = Record<ShapeCorner, number>;
+
+/**
+ * Name of a Material Design 3 easing curve, output as `--md-sys-motion-easing-*`.
+ */
+export type MotionEasing =
+  | "standard"
+  | "standardAccelerate"
+  | "standardDecelerate"
+  | "emphasized"
+  | "emphasizedAccelerate"
+  | "emphasizedDecelerate"
+  | "legacy"
+  | "linear";
+
+/**
+ * Name of a Material Design 3 duration, output as `--md-sys-motion-duration-*`.
+ */
+export type MotionDuration = `${"short" | "medium" | "long" | "extraLong"}${1 | 2 | 3 | 4}`;
+
+/**
+ * Motion configuration.
+ *
+ * @interface MotionConfig
+ * @property {Record<MotionEasing, string>} easing - CSS easing function of every curve
+ * @property {Record<MotionDuration, number>} duration - Every duration in milliseconds
+ */
+export interface MotionConfig {
+  easing: Record<MotionEasing, string>;
+  duration: Record<MotionDuration, number>;
+}
+
+/**
+ * Motion values replacing the Material Design 3 defaults.
+ */
+export interface MotionOptions {
+  easing?: Partial<Record<MotionEasing, string>>;
+  duration?: Partial<Record<MotionDuration, number>>;
+}
+
+/**
+ * Options for generating theme tokens.
+ *
+ * @interface ThemeTokenOptions
+ * @property {boolean | number[]} [palettes] - Also output `--md-ref-palette-*` tokens for every tonal palette, at the
+ * standard Material Design 3 tones (`true`) or at the given tones
+ * @property {string} [prefix="--md-sys-color-"] - Prefix of the role tokens
+ * @property {ColorOverrides} [overrides] - Role colors replacing the generated values
+ * @property {ThemeTokenTransform} [transform] - Function adjusting the tokens after they are generated
+ * @property {ColorFormat[]} [formats=["hex"]] - Color formats to output; the first color format uses the plain token
+ * names, RGB channels and any further formats add a suffix such as `-rgb` or `-oklch`. With RGB channels only, the
+ * plain tokens are hex colors
+ * @property {boolean} [states] - Also output `--md-sys-state-*` opacities and state layer colors blended into each
+ * container role
+ * @property {boolean} [elevation] - Also output `--md-sys-elevation-surface-level*` surface colors for levels 0 to 5
+ * @property {boolean | TypographyOptions} [typography] - Also output `--md-ref-typeface-*` and `--md-sys-typescale-*`
+ * tokens, with the Material Design 3 defaults (`true`) or the given values in their place
+ * @property {boolean | Partial<ShapeConfig>} [shape] - Also output `--md-sys-shape-corner-*` tokens
+ * @property {boolean | MotionOptions} [motion] - Also output `--md-sys-motion-easing-*` and `--md-sys-motion-duration-*`
+ * tokens
+ */
+export interface ThemeTokenOptions {
+  palettes?: boolean | number[];
+  prefix?: string;
+  overrides?: ColorOverrides;
+  transform?: ThemeTokenTransform;
+  formats?: ColorFormat[];
+  states?: boolean;
+  elevation?: boolean;
+  typography?: boolean | TypographyOptions;
+  shape?: boolean | Partial<ShapeConfig>;
+  motion?: boolean | MotionOptions;
+}
+
+/**
+ * Options for rendering a theme as a static stylesheet.
+ *
+ * @interface ThemeCssOptions
+ * @property {string} [selector=":root"] - Selector the light (or fixed mode) tokens are written to
+ * @property {ColorMode} [mode="system"] - Which schemes to include; "system" includes both light and dark rules
+ * @property {"media" | "attribute"} [darkStrategy="media"] - How dark rules are selected in "system" mode: a
+ * `prefers-color-scheme` media query or a `[data-theme="dark"]` attribute on the selected element
+ */
+export interface ThemeCssOptions extends ThemeTokenOptions {
+  selector?: string;
+  mode?: ColorMode;
+  darkStrategy?: "media" | "attribute";
+}
+
+/**
+ * Image a theme source color can be extracted from: an image element, a bitmap or raw RGBA pixel data.
+ */
+export type ImageSource = HTMLImageElement | ImageBitmap | ArrayLike<number>;
+
+/**
+ * Options for extracting source colors from an image.
+ *
+ * @interface ImageColorOptions
+ * @property {number} [maxColors=128] - Maximum number of colors the pixels are quantized to
+ * @property {number} [desired=4] - Maximum number of candidate colors to return
+ * @property {boolean} [filter=true] - Whether to discard colors unsuitable for a theme (e.g. low chroma)
+ */
+export interface ImageColorOptions {
+  maxColors?: number;
+  desired?: number;
+  filter?: boolean;
+}
+
+/**
+ * Theme choices that can be persisted between sessions.
+ *
+ * @interface PersistedThemeState
+ * @property {string} [sourceColor] - Source color in hex format
+ * @property {ThemeVariant} [variant] - Theme variant
+ * @property {ColorMode} [mode] - Color scheme mode
+ * @property {number} [contrastLevel] - Contrast level (-1.0 to 1.0)
+ */
+export interface PersistedThemeState {
+  sourceColor?: string;
+  variant?: ThemeVariant;
+  mode?: ColorMode;
+  contrastLevel?: number;
+}
+
+/**
+ * Storage backend for persisted theme choices.
+ *
+ * @interface ThemeStorageAdapter
+ * @property {(key: string) => string | null} getItem - Reads a stored value
+ * @property {(key: string, value: string) => void} setItem - Writes a value
+ * @property {(key: string) => void} removeItem - Removes a stored value
+ * @property {(key: string, listener: (value: string | null) => void) => () => void} [subscribe] - Listens for changes
+ * made elsewhere (e.g. other browser tabs); returns an unsubscribe function
+ */
+export interface ThemeStorageAdapter {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+  subscribe?: (key: string, listener: (value: string | null) => void) => () => void;
+}
+
+/**
+ * Options for persisting theme choices made through the provider.
+ *
+ * @interface ThemePersistenceOptions
+ * @property {ThemeStorageAdapter} storage - Storage backend; create it once rather than on every render
+ * @property {string} [key="material-theme"] - Storage key
+ */
+export interface ThemePersistenceOptions {
+  storage: ThemeStorageAdapter;
+  key?: string;
+}
+
+/**
+ * Animated transition between themes.
+ *
+ * @interface ThemeTransition
+ * @property {number} duration - Duration in milliseconds
+ * @property {(progress: number) => number} [easing] - Easing function; defaults to the Material Design 3 standard
+ * easing, `cubic-bezier(0.2, 0, 0, 1)`
+ */
+export interface ThemeTransition {
+  duration: number;
+  easing?: (progress: number) => number;
+}
+
+/**
+ * Contrast check result of one foreground/background pair.
+ *
+ * @interface ContrastAuditPair
+ * @property {"light" | "dark"} scheme - Scheme the pair was checked in
+ * @property {string} foreground - Foreground CSS variable name
+ * @property {string} background - Background CSS variable name
+ * @property {"text" | "graphic"} kind - Whether the pair is checked as text or as a graphical element
+ * @property {number} ratio - Contrast ratio from 1 to 21
+ * @property {boolean} aa - Whether the pair meets WCAG AA
+ * @property {boolean} aaa - Whether the pair meets WCAG AAA
+ */
+export interface ContrastAuditPair {
+  scheme: "light" | "dark";
+  foreground: string;
+  background: string;
+  kind: "text" | "graphic";
+  ratio: number;
+  aa: boolean;
+  aaa: boolean;
+}
+
+/**
+ * Contrast audit of a theme, see `auditTheme`.
+ *
+ * @interface ThemeContrastAudit
+ * @property {ContrastAuditPair[]} pairs - Every checked pair
+ * @property {ContrastAuditPair[]} failures - Pairs that do not meet WCAG AA
+ * @property {boolean} passes - Whether every pair meets WCAG AA
+ */
+export interface ThemeContrastAudit {
+  pairs: ContrastAuditPair[];
+  failures: ContrastAuditPair[];
+  passes: boolean;
+}
+
+/**
+ * Name of a scheme in a Material Theme Builder export.
+ */
+export type ThemeBuilderSchemeName =
+  | "light"
+  | "light-medium-contrast"
+  | "light-high-contrast"
+  | "dark"
+  | "dark-medium-contrast"
+  | "dark-high-contrast";
+
+/**
+ * Extended (custom) color of a Material Theme Builder export.
+ *
+ * @interface ThemeBuilderExtendedColor
+ * @property {string} name - Color name
+ * @property {string} color - Color value in hex format
+ * @property {string} [description] - Description entered in Theme Builder
+ * @property {boolean} [harmonized] - Whether the color is harmonized with the source color
+ */
+export interface ThemeBuilderExtendedColor {
+  name: string;
+  color: string;
+  description?: string;
+  harmonized?: boolean;
+}
+
+/**
+ * Contents of the `material-theme.json` file exported by Material Theme Builder.
+ * Scheme values are hex colors keyed by camelCase role name.
+ *
+ * @interface ThemeBuilderJson
+ * @property {string} [description] - Free-form description written by Theme Builder
+ * @property {string} seed - Source color in hex format
+ * @property {Object} coreColors - Core colors in hex format; palettes without one are derived from the seed
+ * @property {ThemeBuilderExtendedColor[]} [extendedColors] - Custom colors
+ * @property {Object} schemes - Role values of each exported scheme
+ * @property {Object} [palettes] - Tones of each tonal palette in hex format, keyed by tone
+ */
+export interface ThemeBuilderJson {
+  description?: string;
+  seed: string;
+  coreColors: { primary: string } & HexSeedColors;
+  extendedColors?: ThemeBuilderExtendedColor[];
+  schemes: Partial<Record<ThemeBuilderSchemeName, Partial<Record<ColorRole, string>>>>;
+  palettes?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Role whose imported value differs from the value generated for the same configuration.
+ *
+ * @interface ThemeBuilderMismatch
+ * @property {ThemeBuilderSchemeName} scheme - Scheme containing the role
+ * @property {ColorRole} role - Color role
+ * @property {string} imported - Value in the imported file
+ * @property {string} generated - Value generated by `createMaterialTheme`
+ */
+export interface ThemeBuilderMismatch {
+  scheme: ThemeBuilderSchemeName;
+  role: ColorRole;
+  imported: string;
+  generated: string;
+}
+
+/**
+ * Theme imported from a Material Theme Builder export, see `parseThemeBuilderJson`.
+ *
+ * @interface ThemeBuilderImport
+ * @property {string} sourceColor - Source color in hex format
+ * @property {HexSeedColors} seedColors - Core colors other than the seed; primary only when it differs from the seed
+ * @property {HexCustomColor[]} customColors - Extended colors
+ * @property {number} contrastLevel - Contrast level of the imported light and dark schemes
+ * @property {MaterialTheme} theme - Theme whose schemes use the imported values
+ * @property {ThemeBuilderMismatch[]} mismatches - Imported values that differ from the generated theme
+ */
+export interface ThemeBuilderImport {
+  sourceColor: string;
+  seedColors: HexSeedColors;
+  customColors: HexCustomColor[];
+  contrastLevel: number;
+  theme: MaterialTheme;
+  mismatches: ThemeBuilderMismatch[];
+}
+
+/**
+ * Options for importing a Material Theme Builder export.
+ *
+ * @interface ThemeBuilderImportOptions
+ * @property {ThemeVariant} [variant] - Variant the file was generated with, defaults to TONAL_SPOT
+ * @property {number} [contrastLevel] - Contrast level whose schemes are imported: 0 for "light" / "dark",
+ * 0.5 for the medium and 1 for the high contrast schemes. Defaults to 0.
+ */
+export interface ThemeBuilderImportOptions {
+  variant?: ThemeVariant;
+  contrastLevel?: number;
+}
+
+/**
+ * Named theme configuration, as registered with the provider.
+ * Options that are left out fall back to the provider's own values.
+ *
+ * @interface ThemeConfig
+ * @property {string} sourceColor - Source color in hex format (e.g., "#6D509F")
+ * @property {ThemeVariant} [variant] - Theme variant
+ * @property {number} [contrastLevel] - Contrast level (-1.0 to 1.0)
+ * @property {HexCustomColor[]} [customColors] - Custom color definitions with hex values
+ * @property {HexSeedColors} [seedColors] - Seed colors of palettes not derived from the source color
+ */
+export interface ThemeConfig {
+  sourceColor: string;
+  variant?: ThemeVariant;
+  contrastLevel?: number;
+  customColors?: HexCustomColor[];
+  seedColors?: HexSeedColors;
+}
+
+/**
+ * Options of a theme controller. `source`, `variant`, `contrast`, `mode` and `activeTheme` are initial values that
+ * are changed through the controller's setters afterwards; the other options can be changed with `setOptions`.
+ *
+ * @interface ThemeControllerOptions
+ * @property {string} [source="#6D509F"] - Initial source color in hex format
+ * @property {ThemeVariant} [variant=Variant.FIDELITY] - Initial built-in or registered custom variant
+ * @property {number} [contrast=ContrastLevel.STANDARD] - Initial contrast level (-1.0 to 1.0)
+ * @property {ColorMode} [mode="light"] - Initial color scheme mode; "system" follows `prefers-color-scheme`
+ * @property {string | null} [activeTheme=null] - Initial named theme to use instead of the controller's own theme
+ * @property {"medium" | "high"} [systemContrast] - Minimum contrast level while `prefers-contrast: more` matches
+ * @property {HexCustomColor[]} [customColors] - Custom color definitions with hex values
+ * @property {HexSeedColors} [seedColors] - Seed colors of palettes not derived from the source color
+ * @property {Record<string, ThemeConfig>} [themes] - Named themes that can be switched to with `setActiveTheme`
+ * @property {ThemeBuilderImport} [importedTheme] - Theme imported with `parseThemeBuilderJson`, used instead of
+ * generating one from the source color; an active named theme still takes precedence
+ * @property {ThemeTransition} [transition] - Animate color changes; disabled while the user prefers reduced motion
+ * @property {ThemePersistenceOptions} [persistence] - Restore and persist source color, variant, mode and contrast
+ * level choices
+ * @property {HTMLElement | null} [target] - Element the tokens are applied to; defaults to the document root, and
+ * null skips applying
+ */
+export interface ThemeControllerOptions extends ThemeTokenOptions {
+  source?: string;
+  variant?: ThemeVariant;
+  contrast?: number;
+  mode?: ColorMode;
+  activeTheme?: string | null;
+  systemContrast?: "medium" | "high";
+  customColors?: HexCustomColor[];
+  seedColors?: HexSeedColors;
+  themes?: Record<string, ThemeConfig>;
+  importedTheme?: ThemeBuilderImport;
+  transition?: ThemeTransition;
+  persistence?: ThemePersistenceOptions;
+  target?: HTMLElement | null;
+}
+
+/**
+ * Options of a theme controller that can be changed after it is created.
+ */
+export type ThemeControllerSettings = Omit<
+  ThemeControllerOptions,
+  "source" | "variant" | "contrast" | "mode" | "activeTheme" | "persistence"
+>;
+
+/**
+ * Snapshot of a theme controller's state. A new object is created only when a value changes, so snapshots can be
+ * compared by identity.
+ *
+ * @interface ThemeControllerState
+ * @property {string} sourceColor - Selected source color in hex format
+ * @property {ThemeVariant} variant - Variant in effect, including an active named theme's
+ * @property {number} contrastLevel - Contrast level in effect (-1.0 to 1.0)
+ * @property {ColorMode} mode - Selected color scheme mode
+ * @property {ResolvedColorMode} resolvedMode - Color scheme mode in effect, with "system" resolved
+ * @property {string | null} activeTheme - Name of the named theme in use, or null for the controller's own theme
+ * @property {MaterialTheme} theme - Current Material theme
+ * @property {DynamicScheme} scheme - Color scheme of the resolved mode
+ */
+export interface ThemeControllerState {
+  sourceColor: string;
+  variant: ThemeVariant;
+  contrastLevel: number;
+  mode: ColorMode;
+  resolvedMode: ResolvedColorMode;
+  activeTheme: string | null;
+  theme: MaterialTheme;
+  scheme: DynamicScheme;
+}
+
+/**
+ * Framework-agnostic theme state with methods applying it to the DOM.
+ * System preferences and choices made in other browser tabs are followed while the controller has subscribers.
+ *
+ * @interface ThemeController
+ * @property {() => ThemeControllerState} getState - Returns the current state snapshot
+ * @property {(listener: () => void) => () => void} subscribe - Calls the listener whenever the state changes;
+ * returns an unsubscribe function
+ * @property {(color: string) => void} setSourceColor - Updates the source color
+ * @property {(image: ImageSource) => Promise<number[]>} setSourceImage - Updates the source color from an image;
+ * resolves with the ranked candidate colors in ARGB format
+ * @property {(variant: ThemeVariant) => void} setVariant - Updates the variant
+ * @property {(level: number) => void} setContrastLevel - Updates the contrast level
+ * @property {(mode: ColorMode) => void} setMode - Updates the color scheme mode
+ * @property {(name: string | null) => void} setActiveTheme - Switches to a named theme, or back to the controller's
+ * own theme with null
+ * @property {(name: string, config: ThemeConfig) => void} registerTheme - Adds or replaces a named theme
+ * @property {(settings: ThemeControllerSettings) => void} setOptions - Replaces the given options; options set to
+ * undefined return to their defaults
+ * @property {() => void} apply - Writes the tokens of the current state to the target element, only touching changed
+ * values
+ * @property {() => void} destroy - Stops the transition, removes all listeners and removes the tokens from a target
+ * other than the document root
+ */
+export interface ThemeController {
+  getState: () => ThemeControllerState;
+  subscribe: (listener: () => void) => () => void;
+  setSourceColor: (color: string) => void;
+  setSourceImage: (image: ImageSource) => Promise<number[]>;
+  setVariant: (variant: ThemeVariant) => void;
+  setContrastLevel: (level: number) => void;
+  setMode: (mode: ColorMode) => void;
+  setActiveTheme: (name: string | null) => void;
+  registerTheme: (name: string, config: ThemeConfig) => void;
+  setOptions: (settings: ThemeControllerSettings) => void;
+  apply: () => void;
+  destroy: () => void;
+}
+
 /**
  * Interface for the Material Theme context value.
  * Provides access to theme data and controls for components.
  *
  * @interface MaterialThemeContextType
- * @property {MaterialTheme | null} materialTheme - Current Material theme configuration or null if not yet generated
+ * @property {MaterialTheme} materialTheme - Current Material theme configuration
  * @property {(color: string) => void} setSourceColor - Function to update the theme's source color
- * @property {DynamicScheme | null} currentScheme - Current color scheme based on light/dark mode preference
+ * @property {DynamicScheme} currentScheme - Current color scheme based on light/dark mode preference
+ * @property {ThemeVariant} variant - Current theme variant
+ * @property {(variant: ThemeVariant) => void} setVariant - Function to update the theme variant
+ * @property {ColorMode} mode - Selected color scheme mode
+ * @property {ResolvedColorMode} resolvedMode - Color scheme mode in effect, with "system" resolved
+ * @property {(mode: ColorMode) => void} setMode - Function to update the color scheme mode
+ * @property {number} contrastLevel - Contrast level in effect (-1.0 to 1.0)
+ * @property {(level: number) => void} setContrastLevel - Function to update the contrast level
+ * @property {(palette: PaletteName, tone: number) => string} getTone - Function returning a palette tone in hex format
+ * @property {(image: ImageSource) => Promise<number[]>} setSourceImage - Function to update the source color from an
+ * image; resolves with the ranked candidate colors in ARGB format
+ * @property {string | null} activeTheme - Name of the named theme in use, or null for the provider's own theme
+ * @property {(name: string | null) => void} setActiveTheme - Function to switch to a named theme, or back to the
+ * provider's own theme with null
+ * @property {(name: string, config: ThemeConfig) => void} registerTheme - Function to add or replace a named theme
+ * @property {string} prefix - Prefix of the role tokens applied by the provider
+ * @property {(color: string) => string} harmonize - Function shifting the hue of a hex color toward the source color
+ * @property {TypographyConfig} typography - Typography in effect, with the Material Design 3 defaults filled in
+ * @property {ShapeConfig} shape - Corner radii in effect
+ * @property {MotionConfig} motion - Easing curves and durations in effect
  */
 export interface MaterialThemeContextType {
-  materialTheme: MaterialTheme | null;
+  materialTheme: MaterialTheme;
   setSourceColor: (color: string) => void;
-  currentScheme: DynamicScheme | null;
+  currentScheme: DynamicScheme;
+  variant: ThemeVariant;
+  setVariant: (variant: ThemeVariant) => void;
+  mode: ColorMode;
+  resolvedMode: ResolvedColorMode;
+  setMode: (mode: ColorMode) => void;
+  contrastLevel: number;
+  setContrastLevel: (level: number) => void;
+  setSourceImage: (image: ImageSource) => Promise<number[]>;
+  getTone: (palette: PaletteName, tone: number) => string;
+  activeTheme: string | null;
+  setActiveTheme: (name: string | null) => void;
+  registerTheme: (name: string, config: ThemeConfig) => void;
+  prefix: string;
+  harmonize: (color: string) => string;
+  typography: TypographyConfig;
+  shape: ShapeConfig;
+  motion: MotionConfig;
 }
 
 /**
@@ -71,22 +865,85 @@ export interface MaterialThemeContextType {
  *
  * @interface MaterialThemeProviderProps
  * @property {ReactNode} children - Child components to be wrapped by the provider
- * @property {boolean} [isDark] - Whether to use dark mode color scheme
- * @property {Variant} [variant] - Theme variant to use for color scheme generation
+ * @property {boolean} [isDark] - Whether to use dark mode color scheme; ignored when `mode` is set
+ * @property {ColorMode} [mode] - Color scheme mode; "system" follows `prefers-color-scheme`
+ * @property {ThemeVariant} [variant] - Theme variant to use for color scheme generation
+ * @property {number} [contrastLevel] - Contrast level (-1.0 to 1.0), see ContrastLevel for standard values
+ * @property {"medium" | "high"} [systemContrast] - Follow `prefers-contrast: more`, raising the contrast to at least
+ * the medium or high level while it matches
  * @property {string} [defaultSourceColor] - Initial source color in hex format (e.g., "#6D509F")
- * @property {Array<{name: string, value: string, blend: boolean}>} [customColors] - Custom color definitions
- * @property {string} customColors[].name - Identifier for the custom color
- * @property {string} customColors[].value - Hex color value
- * @property {boolean} customColors[].blend - Whether to blend with the source color
+ * @property {HexCustomColor[]} [customColors] - Custom color definitions with hex values
+ * @property {HexSeedColors} [seedColors] - Seed colors of the primary, secondary, tertiary, neutral, neutral variant and
+ * error palettes
+ * @property {Record<string, ThemeConfig>} [themes] - Named themes that can be switched to at runtime
+ * @property {string} [activeTheme] - Name of the named theme to use instead of the provider's own theme
+ * @property {ThemeBuilderImport} [importedTheme] - Theme imported from Material Theme Builder, used instead of the
+ * theme generated from the source color; an active named theme still takes precedence
+ * @property {boolean | number[]} [palettes] - Also apply `--md-ref-palette-*` tokens for every tonal palette
+ * @property {string} [prefix] - Prefix of the role tokens instead of `--md-sys-color-`
+ * @property {ColorOverrides} [overrides] - Role colors replacing the generated values, in the tokens and the context
+ * @property {ThemeTokenTransform} [transform] - Function adjusting the tokens before they are applied
+ * @property {ColorFormat[]} [formats] - Color formats of the applied tokens, see ThemeTokenOptions
+ * @property {boolean} [states] - Also apply `--md-sys-state-*` state layer tokens
+ * @property {boolean} [elevation] - Also apply `--md-sys-elevation-surface-level*` surface tokens
+ * @property {boolean | TypographyOptions} [typography] - Also apply typeface and type scale tokens, see
+ * ThemeTokenOptions; the context exposes the typography either way
+ * @property {boolean | Partial<ShapeConfig>} [shape] - Also apply `--md-sys-shape-corner-*` tokens
+ * @property {boolean | MotionOptions} [motion] - Also apply `--md-sys-motion-*` easing and duration tokens
+ * @property {ThemeTransition} [transition] - Animate color changes; disabled while the user prefers reduced motion
+ * @property {boolean} [auditContrast] - Log a warning for every role pair failing WCAG AA; intended for development
+ * @property {ThemePersistenceOptions} [persistence] - Persist source color, variant, mode and contrast level choices
+ * @property {boolean} [scoped] - Whether to render a wrapper element and apply tokens to it instead of the document root
+ * @property {RefObject<HTMLElement | null>} [target] - Element to apply tokens to instead of the document root
  */
 export interface MaterialThemeProviderProps {
   children: ReactNode;
   isDark?: boolean;
-  variant?: Variant;
+  mode?: ColorMode;
+  variant?: ThemeVariant;
+  contrastLevel?: number;
+  systemContrast?: "medium" | "high";
   defaultSourceColor?: string;
-  customColors?: Array<{
-    name: string;
-    value: string;
-    blend: boolean;
-  }>;
+  customColors?: HexCustomColor[];
+  seedColors?: HexSeedColors;
+  themes?: Record<string, ThemeConfig>;
+  activeTheme?: string;
+  importedTheme?: ThemeBuilderImport;
+  palettes?: boolean | number[];
+  prefix?: string;
+  overrides?: ColorOverrides;
+  transform?: ThemeTokenTransform;
+  formats?: ColorFormat[];
+  states?: boolean;
+  elevation?: boolean;
+  typography?: boolean | TypographyOptions;
+  shape?: boolean | Partial<ShapeConfig>;
+  motion?: boolean | MotionOptions;
+  transition?: ThemeTransition;
+  auditContrast?: boolean;
+  persistence?: ThemePersistenceOptions;
+  scoped?: boolean;
+  target?: RefObject<HTMLElement | null>;
+}
+
+/**
+ * Props interface for the MaterialThemeStyle component.
+ * Theme options mirror MaterialThemeProvider so both produce the same tokens.
+ *
+ * @interface MaterialThemeStyleProps
+ * @property {string} [sourceColor] - Source color in hex format (e.g., "#6D509F")
+ * @property {ThemeVariant} [variant] - Theme variant to use for color scheme generation
+ * @property {number} [contrastLevel] - Contrast level (-1.0 to 1.0), see ContrastLevel for standard values
+ * @property {HexCustomColor[]} [customColors] - Custom color definitions with hex values
+ * @property {HexSeedColors} [seedColors] - Seed colors of the primary, secondary, tertiary, neutral, neutral variant and
+ * error palettes
+ * @property {string} [nonce] - Content Security Policy nonce for the style element
+ */
+export interface MaterialThemeStyleProps extends ThemeCssOptions {
+  sourceColor?: string;
+  variant?: ThemeVariant;
+  contrastLevel?: number;
+  customColors?: HexCustomColor[];
+  seedColors?: HexSeedColors;
+  nonce?: string;
 }
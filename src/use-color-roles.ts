@@ -0,0 +1,48 @@
+"use client";
+
+import { useMemo } from "react";
+import { useMaterialTheme } from "./material-theme-provider";
+import { getColorRoles, harmonizeColor } from "./harmonize";
+import type { ColorRoles } from "./types";
+
+/**
+ * Hook returning a color with its hue shifted toward the theme's source color.
+ * The result is recomputed when the color or the source color changes.
+ *
+ * @param {string} hex - Color in hex format, e.g. a user-chosen label color
+ * @returns {string} Harmonized color in hex format
+ *
+ * @example
+ * ```tsx
+ * const color = useHarmonizedColor(label.color);
+ * <span style={{ color }}>{label.name}</span>;
+ * ```
+ */
+export function useHarmonizedColor(hex: string): string {
+  const { materialTheme } = useMaterialTheme();
+  const source = materialTheme.source;
+  return useMemo(() => harmonizeColor(hex, source), [hex, source]);
+}
+
+/**
+ * Hook returning the color, on-color, container and on-container roles of any color in the resolved color mode.
+ * The roles are recomputed when the color, the source color or the mode changes.
+ *
+ * @param {string} hex - Color in hex format
+ * @param {boolean} [harmonize=true] - Whether to shift the hue toward the source color first
+ * @returns {ColorRoles} Role values in hex format
+ *
+ * @example
+ * ```tsx
+ * function Tag({ name, color }: { name: string; color: string }) {
+ *   const roles = useColorRoles(color);
+ *   return <span style={{ background: roles.container, color: roles.onContainer }}>{name}</span>;
+ * }
+ * ```
+ */
+export function useColorRoles(hex: string, harmonize = true): ColorRoles {
+  const { materialTheme, currentScheme } = useMaterialTheme();
+  const source = materialTheme.source;
+  const isDark = currentScheme.isDark;
+  return useMemo(() => getColorRoles(hex, source, isDark, harmonize), [hex, source, isDark, harmonize]);
+}
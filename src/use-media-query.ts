@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Reads the current match state of a media query, returning false where `matchMedia` is unavailable (e.g. SSR).
+ *
+ * @param {string} query - Media query to evaluate
+ * @returns {boolean} Whether the media query currently matches
+ */
+const getMatches = (query: string): boolean => {
+  if (typeof window === "undefined" || typeof window.matchMedia !== "function") {
+    return false;
+  }
+  return window.matchMedia(query).matches;
+};
+
+/**
+ * Hook that tracks whether a CSS media query matches and updates live when it changes.
+ *
+ * @param {string} query - Media query to track (e.g. "(prefers-color-scheme: dark)")
+ * @param {boolean} [enabled=true] - Whether to subscribe to the media query; returns false when disabled
+ * @returns {boolean} Whether the media query currently matches
+ *
+ * @example
+ * ```tsx
+ * const prefersDark = useMediaQuery("(prefers-color-scheme: dark)");
+ * ```
+ */
+export function useMediaQuery(query: string, enabled = true): boolean {
+  const [matches, setMatches] = useState(() => enabled && getMatches(query));
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined" || typeof window.matchMedia !== "function") {
+      setMatches(false);
+      return;
+    }
+
+    const mediaQueryList = window.matchMedia(query);
+    const handleChange = (event: MediaQueryListEvent) => setMatches(event.matches);
+
+    setMatches(mediaQueryList.matches);
+    mediaQueryList.addEventListener("change", handleChange);
+
+    return () => mediaQueryList.removeEventListener("change", handleChange);
+  }, [query, enabled]);
+
+  return matches;
+}
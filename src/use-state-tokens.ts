@@ -0,0 +1,25 @@
+"use client";
+
+import { useMemo } from "react";
+import { useMaterialTheme } from "./material-theme-provider";
+import { getStateTokens } from "./state-tokens";
+import type { ThemeStateTokens } from "./types";
+
+/**
+ * Hook returning the state layer opacities, blended state colors and elevation surfaces of the current scheme.
+ * Values follow the resolved color mode and are recomputed when the scheme changes.
+ *
+ * @returns {ThemeStateTokens} State and elevation values in hex format
+ *
+ * @example
+ * ```tsx
+ * function Card() {
+ *   const states = useStateTokens();
+ *   return <div style={{ background: states.elevation[1] }} />;
+ * }
+ * ```
+ */
+export function useStateTokens(): ThemeStateTokens {
+  const { currentScheme } = useMaterialTheme();
+  return useMemo(() => getStateTokens(currentScheme), [currentScheme]);
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useMemo } from "react";
+import { useMaterialTheme } from "./material-theme-provider";
+import { formatColor } from "./color-formats";
+import { toTokenName } from "./string-utils";
+import { type ColorFormat, type ColorRole, COLOR_ROLES } from "./types";
+
+/**
+ * Hook returning every role of the current scheme as a formatted color.
+ * The object is memoized and only changes with the scheme or format.
+ *
+ * @param {ColorFormat} [format="hex"] - Color format of the values
+ * @returns {Record<ColorRole, string>} Formatted color of each role
+ *
+ * @example
+ * ```tsx
+ * const colors = useThemeColors();
+ * <svg fill={colors.primary} stroke={colors.outline} />;
+ * ```
+ */
+export function useThemeColors(format: ColorFormat = "hex"): Record<ColorRole, string> {
+  const { currentScheme } = useMaterialTheme();
+
+  return useMemo(
+    () =>
+      Object.fromEntries(COLOR_ROLES.map((role) => [role, formatColor(currentScheme[role], format)])) as Record<
+        ColorRole,
+        string
+      >,
+    [currentScheme, format],
+  );
+}
+
+/**
+ * Hook returning one role of the current scheme as a formatted color.
+ *
+ * @param {ColorRole} role - Color role
+ * @param {ColorFormat} [format="hex"] - Color format of the value
+ * @returns {string} Formatted color
+ *
+ * @example
+ * ```tsx
+ * const container = useThemeColor("primaryContainer");
+ * ```
+ */
+export function useThemeColor(role: ColorRole, format: ColorFormat = "hex"): string {
+  const { currentScheme } = useMaterialTheme();
+  return formatColor(currentScheme[role], format);
+}
+
+/**
+ * Hook returning a `var()` reference to the token of a role, using the provider's token prefix.
+ * The reference stays the same across theme changes, as the browser resolves the current value.
+ *
+ * @param {ColorRole} role - Color role
+ * @returns {string} CSS variable reference, e.g. `var(--md-sys-color-primary)`
+ *
+ * @example
+ * ```tsx
+ * const primary = useCssVar("primary");
+ * <button style={{ background: primary }} />;
+ * ```
+ */
+export function useCssVar(role: ColorRole): string {
+  const { prefix } = useMaterialTheme();
+  return `var(${prefix}${toTokenName(role)})`;
+}
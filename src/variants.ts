@@ -0,0 +1,127 @@
+import {
+  type DynamicScheme,
+  type Hct,
+  SchemeContent,
+  SchemeExpressive,
+  SchemeFidelity,
+  SchemeFruitSalad,
+  SchemeMonochrome,
+  SchemeNeutral,
+  SchemeRainbow,
+  SchemeTonalSpot,
+  SchemeVibrant,
+} from "@material/material-color-utilities";
+import { type SchemeFactory, type ThemeVariant, Variant } from "./types";
+
+/**
+ * Scheme constructors of the built-in variants. Each scheme reports the same `Variant` value through
+ * `DynamicScheme.variant`, as the enum mirrors the one in material-color-utilities.
+ */
+const BUILT_IN_SCHEMES: Record<
+  Variant,
+  new (
+    sourceColorHct: Hct,
+    isDark: boolean,
+    contrastLevel: number,
+  ) => DynamicScheme
+> = {
+  [Variant.MONOCHROME]: SchemeMonochrome,
+  [Variant.NEUTRAL]: SchemeNeutral,
+  [Variant.TONAL_SPOT]: SchemeTonalSpot,
+  [Variant.VIBRANT]: SchemeVibrant,
+  [Variant.EXPRESSIVE]: SchemeExpressive,
+  [Variant.FIDELITY]: SchemeFidelity,
+  [Variant.CONTENT]: SchemeContent,
+  [Variant.RAINBOW]: SchemeRainbow,
+  [Variant.FRUIT_SALAD]: SchemeFruitSalad,
+};
+
+const customVariants = new Map<string, SchemeFactory>();
+
+// Incremented on every registry change, so caches of generated themes can tell factories of the same name apart
+let registryVersion = 0;
+
+/**
+ * Registers a custom variant that can be used wherever a `Variant` is accepted.
+ * Registering a name again replaces its factory.
+ *
+ * @param {string} name - Variant name, e.g. "brand-muted"
+ * @param {SchemeFactory} factory - Creates the scheme for a source color, mode and contrast level
+ *
+ * @example
+ * ```ts
+ * registerVariant("brand-muted", (source, isDark, contrastLevel) =>
+ *   new DynamicScheme({
+ *     sourceColorArgb: source.toInt(),
+ *     variant: Variant.TONAL_SPOT,
+ *     contrastLevel,
+ *     isDark,
+ *     primaryPalette: TonalPalette.fromHueAndChroma(source.hue, 24),
+ *     secondaryPalette: TonalPalette.fromHueAndChroma(source.hue, 8),
+ *     tertiaryPalette: TonalPalette.fromHueAndChroma(source.hue + 60, 16),
+ *     neutralPalette: TonalPalette.fromHueAndChroma(source.hue, 4),
+ *     neutralVariantPalette: TonalPalette.fromHueAndChroma(source.hue, 6),
+ *   }),
+ * );
+ *
+ * createMaterialTheme(argbFromHex("#6D509F"), "brand-muted");
+ * ```
+ */
+export const registerVariant = (name: string, factory: SchemeFactory): void => {
+  customVariants.set(name, factory);
+  registryVersion += 1;
+};
+
+/**
+ * Removes a custom variant.
+ *
+ * @param {string} name - Variant name
+ * @returns {boolean} True if the variant was registered
+ */
+export const unregisterVariant = (name: string): boolean => {
+  const removed = customVariants.delete(name);
+  if (removed) registryVersion += 1;
+  return removed;
+};
+
+/**
+ * Returns a number that changes whenever a custom variant is registered, replaced or removed.
+ * Include it in cache keys of generated themes, so they are not reused after a variant's factory changes.
+ *
+ * @returns {number} Version of the variant registry
+ */
+export const getVariantRegistryVersion = (): number => registryVersion;
+
+/**
+ * Checks whether a value is a built-in or registered custom variant.
+ *
+ * @param {unknown} variant - Value to check
+ * @returns {boolean} True if schemes can be created for the variant
+ */
+export const isKnownVariant = (variant: unknown): variant is ThemeVariant =>
+  typeof variant === "string"
+    ? customVariants.has(variant)
+    : typeof variant === "number" && Object.prototype.hasOwnProperty.call(BUILT_IN_SCHEMES, variant);
+
+/**
+ * Returns the scheme factory of a built-in or registered custom variant.
+ *
+ * @param {ThemeVariant} variant - Variant to look up
+ * @returns {SchemeFactory} Scheme factory
+ * @throws {Error} When the variant is neither built in nor registered
+ */
+export const getSchemeFactory = (variant: ThemeVariant): SchemeFactory => {
+  if (typeof variant === "string") {
+    const factory = customVariants.get(variant);
+    if (!factory) {
+      throw new Error(`Unknown theme variant "${variant}". Register it with registerVariant() first.`);
+    }
+    return factory;
+  }
+
+  const Scheme = BUILT_IN_SCHEMES[variant];
+  if (!Scheme) {
+    throw new Error(`Unknown theme variant ${String(variant)}. Expected a value of the Variant enum.`);
+  }
+  return (sourceColorHct, isDark, contrastLevel) => new Scheme(sourceColorHct, isDark, contrastLevel);
+};
@@ -1,10 +1,11 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-    entry: ['src/index.ts'],
+    entry: ['src/index.ts', 'src/testing.tsx', 'src/bin.ts'],
     format: ['cjs', 'esm'],
     dts: true,
-    splitting: false,
+    // Entries share chunks, so the testing entry uses the same context as the main entry
+    splitting: true,
     sourcemap: true,
     clean: true,
 })
\ No newline at end of file